@@ -0,0 +1,235 @@
+import {
+  createMemo,
+  createSignal,
+  onCleanup,
+  onMount,
+  For,
+  Show,
+} from "solid-js";
+import {
+  ACTIVITY_LOG_KEY,
+  ACTIVITY_SOURCE_KEY,
+  type ActivityEntry,
+  type ActivitySource,
+} from "./lib/activity.ts";
+import { sessionGet } from "./lib/chrome.ts";
+import { sendMessage } from "./lib/messages.ts";
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleTimeString([], { hour12: false });
+}
+
+function ActivityLog(props: { onError: (message: string) => void }) {
+  const [entries, setEntries] = createSignal<ActivityEntry[]>([]);
+  const [source, setSource] = createSignal<ActivitySource>("debug");
+  const [filter, setFilter] = createSignal("");
+  const [refreshing, setRefreshing] = createSignal(false);
+
+  const readLog = () => {
+    sessionGet([ACTIVITY_LOG_KEY, ACTIVITY_SOURCE_KEY])
+      .then((result) => {
+        const log = result[ACTIVITY_LOG_KEY];
+        setEntries(Array.isArray(log) ? (log as ActivityEntry[]) : []);
+        if (result[ACTIVITY_SOURCE_KEY] === "matched") {
+          setSource("matched");
+        }
+      })
+      .catch((error: unknown) =>
+        props.onError(
+          error instanceof Error
+            ? error.message
+            : "Failed to read activity log.",
+        ),
+      );
+  };
+
+  const refresh = async () => {
+    setRefreshing(true);
+    try {
+      await sendMessage({ type: "refreshActivity" });
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to refresh activity.",
+      );
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await sendMessage({ type: "clearActivity" });
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to clear activity.",
+      );
+    }
+  };
+
+  const visibleEntries = createMemo(() => {
+    const query = filter().trim().toLowerCase();
+    const newestFirst = [...entries()].reverse();
+    if (query === "") {
+      return newestFirst;
+    }
+
+    return newestFirst.filter((entry) =>
+      [
+        entry.url,
+        entry.method ?? "",
+        entry.type ?? "",
+        entry.profileName ?? "",
+        entry.ruleName ?? "",
+        ...entry.headers,
+      ].some((field) => field.toLowerCase().includes(query)),
+    );
+  });
+
+  onMount(() => {
+    if (typeof chrome === "undefined" || !chrome.storage?.session) {
+      return;
+    }
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName === "session" && changes[ACTIVITY_LOG_KEY]) {
+        const log = changes[ACTIVITY_LOG_KEY].newValue;
+        setEntries(Array.isArray(log) ? (log as ActivityEntry[]) : []);
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    onCleanup(() => chrome.storage.onChanged.removeListener(handleChange));
+
+    readLog();
+    void refresh();
+  });
+
+  return (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <polyline points="22 12 18 12 15 21 9 3 6 12 2 12" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            Activity
+          </h2>
+          <span
+            class="text-[9px] rounded-md px-1.5 py-0.5 font-extrabold tracking-wider border"
+            classList={{
+              "bg-emerald-500/10 text-emerald-600 border-emerald-500/30":
+                source() === "debug",
+              "bg-muted/40 text-muted-foreground border-border/60":
+                source() === "matched",
+            }}
+            title={
+              source() === "debug"
+                ? "Recorded live from onRuleMatchedDebug"
+                : "Polled from getMatchedRules; URLs show the tab's page"
+            }
+          >
+            {source() === "debug" ? "LIVE" : "POLLED"}
+          </span>
+        </div>
+        <div class="flex items-center gap-1.5">
+          <button
+            onClick={() => void refresh()}
+            disabled={refreshing()}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => void clear()}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:text-destructive hover:bg-destructive/10 border border-border/50 transition-all custom-focus"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <input
+        type="text"
+        value={filter()}
+        onInput={(event) => setFilter(event.currentTarget.value)}
+        placeholder="Filter by URL, rule, profile or header"
+        class="w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+      />
+      <Show
+        when={visibleEntries().length > 0}
+        fallback={
+          <p class="text-[10px] text-muted-foreground/60 leading-relaxed py-4 text-center">
+            {entries().length === 0
+              ? "No modified requests recorded yet."
+              : "No entries match the filter."}
+          </p>
+        }
+      >
+        <ul class="space-y-1.5">
+          <For each={visibleEntries()}>
+            {(entry) => (
+              <li class="rounded-xl border border-border/60 bg-muted/4 px-2.5 py-1.5 space-y-0.5 animate-fade-in">
+                <div class="flex items-center gap-1.5 text-[9px] font-bold text-muted-foreground">
+                  <span>{formatTime(entry.time)}</span>
+                  <Show when={entry.method}>
+                    <span class="uppercase text-foreground/70">
+                      {entry.method}
+                    </span>
+                  </Show>
+                  <Show when={entry.type}>
+                    <span>{entry.type}</span>
+                  </Show>
+                  <Show when={entry.tabOnly}>
+                    <span
+                      class="rounded px-1 bg-amber-500/10 text-amber-600"
+                      title="Matched a tab-only session rule"
+                    >
+                      TAB
+                    </span>
+                  </Show>
+                  <span class="ml-auto">
+                    {entry.tabId >= 0 ? `tab ${entry.tabId}` : "no tab"}
+                  </span>
+                </div>
+                <p
+                  class="truncate text-[11px] font-semibold text-foreground/80"
+                  title={entry.url}
+                >
+                  {entry.url}
+                </p>
+                <p class="truncate text-[10px] text-muted-foreground">
+                  {entry.profileName && entry.ruleName
+                    ? `${entry.profileName} / ${entry.ruleName}`
+                    : `DNR rule ${entry.ruleId}`}
+                </p>
+                <Show when={entry.headers.length > 0}>
+                  <p
+                    class="truncate text-[9px] text-muted-foreground/70"
+                    title={entry.headers.join("\n")}
+                  >
+                    {entry.headers.join(" · ")}
+                  </p>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    </section>
+  );
+}
+
+export default ActivityLog;
@@ -1,191 +1,369 @@
 import { createMemo, createSignal, onMount, For, Show } from "solid-js";
-
-interface HeaderConfig {
-  key: string;
-  value: string;
-}
-
-type DomainMatchMode = "exact" | "include_subdomains" | "subdomains_only";
+import ActivityLog from "./ActivityLog.tsx";
+import ApplyPreviewPanel from "./ApplyPreviewPanel.tsx";
+import HistoryPanel from "./HistoryPanel.tsx";
+import ImportPanel, { type ImportMode } from "./ImportPanel.tsx";
+import SecretsPanel, { type SecretsChange } from "./SecretsPanel.tsx";
+import SubscriptionsPanel from "./SubscriptionsPanel.tsx";
+import TabSessionBanner from "./TabSessionBanner.tsx";
+import UrlTester from "./UrlTester.tsx";
+import {
+  DEFAULT_PROFILE_NAME,
+  REQUEST_METHODS,
+  RESOURCE_TYPES,
+  createScheduleConfig,
+  parseStoredSchedule,
+  readActiveProfileIds,
+  parseStoredVariables,
+  type AppliedConfig,
+  type DomainMatchMode,
+  type HeaderConfig,
+  type HeaderOperation,
+  type HistoryEntry,
+  type Profile,
+  type RedirectMode,
+  type RequestFilters,
+  type RuleKind,
+  type ScheduleConfig,
+  type ScheduleWindow,
+  type VariableConfig,
+} from "./lib/config.ts";
+import { CONFIG_VERSION } from "./lib/schema.ts";
+import {
+  readSecretKey,
+  redactSecrets,
+  unsealHeaders,
+  unsealProfiles,
+} from "./lib/secrets.ts";
+import type { ImportPreview } from "./lib/importers.ts";
+import {
+  hasSchedule,
+  isScheduleActive,
+  nextScheduleChange,
+  parseClockTime,
+} from "./lib/schedule.ts";
+import {
+  getActiveTabId,
+  getActiveTabUrl,
+  openOptionsPage,
+} from "./lib/chrome.ts";
+import { sendMessage } from "./lib/messages.ts";
+import {
+  EXCLUSION_PREFIX,
+  SITE_SCOPE_LABELS,
+  parseDomains,
+  siteScopeChoices,
+  validateScopeEntry,
+  type SiteChoice,
+} from "./lib/scope.ts";
+import { buildApplyPreview, type ApplyPreview } from "./lib/preview.ts";
+import {
+  HEADER_OPERATIONS,
+  MAX_PROFILE_NAME_LENGTH,
+  checkRegexSupport,
+  copyRuleDraft,
+  copyVariables,
+  createDefaultHeaders,
+  createProfileDraft,
+  createRuleDraft,
+  isExclusion,
+  loadEditableConfig,
+  parseInitiators,
+  profileToDraft,
+  splitExclusions,
+  validateProfiles,
+  type HeaderTarget,
+  type ProfileDraft,
+  type RedirectDraft,
+  type RuleDraft,
+} from "./lib/drafts.ts";
+
+type VariableScope = "global" | "profile";
 type StatusType = "success" | "error";
-
-interface StoredConfig {
-  headers?: HeaderConfig[];
-  enabled?: boolean;
-  domains?: string[];
-  domainMatchMode?: DomainMatchMode;
-  temporaryUntil?: number | null;
-}
+type PopupView = "rules" | "activity";
 
 interface ValidatedPayload {
-  headers: HeaderConfig[];
-  domains: string[];
+  profiles: Profile[];
+  variables: VariableConfig[];
   temporaryMinutes: number;
+  schedule: ScheduleConfig;
+  warnings: string[];
 }
 
-const HEADER_NAME_RE = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
-const HOST_RE =
-  /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
-const IPV4_RE =
-  /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\.(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
-const DEFAULT_HEADERS: HeaderConfig[] = [{ key: "", value: "" }];
-const ALARM_NAME = "header-modifier-expiry";
-
-function escapeRegex(input: string) {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const REQUEST_FILTER_PRESETS: { label: string; filters: RequestFilters }[] = [
+  {
+    label: "All",
+    filters: {
+      resourceTypes: [],
+      resourceTypeMode: "include",
+      requestMethods: [],
+    },
+  },
+  {
+    label: "API calls",
+    filters: {
+      resourceTypes: ["xmlhttprequest"],
+      resourceTypeMode: "include",
+      requestMethods: [],
+    },
+  },
+  {
+    label: "Pages",
+    filters: {
+      resourceTypes: ["main_frame", "sub_frame"],
+      resourceTypeMode: "include",
+      requestMethods: [],
+    },
+  },
+  {
+    label: "No assets",
+    filters: {
+      resourceTypes: ["image", "font", "media", "stylesheet"],
+      resourceTypeMode: "exclude",
+      requestMethods: [],
+    },
+  },
+];
+const RULE_KINDS: { kind: RuleKind; label: string }[] = [
+  { kind: "headers", label: "Headers" },
+  { kind: "redirect", label: "Redirect" },
+  { kind: "block", label: "Block" },
+];
+const REDIRECT_MODES: { mode: RedirectMode; label: string }[] = [
+  { mode: "url", label: "URL" },
+  { mode: "regex", label: "Regex" },
+  { mode: "transform", label: "Transform" },
+];
+// Indexed like Date#getDay, shown Monday first.
+const WEEKDAY_LABELS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// datetime-local inputs take local time without a zone suffix.
+function toDateTimeInput(time: number | null) {
+  if (time === null) {
+    return "";
+  }
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
 }
 
-function stripWildcardPrefix(domain: string) {
-  return domain.replace(/^\*\./, "");
+function formatDateTime(time: number) {
+  return new Date(time).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
 }
 
 function App() {
-  const [headers, setHeaders] = createSignal<HeaderConfig[]>(DEFAULT_HEADERS);
+  const initialProfile = createProfileDraft(DEFAULT_PROFILE_NAME, 1);
+  const [profiles, setProfiles] = createSignal<ProfileDraft[]>([
+    initialProfile,
+  ]);
+  const [selectedProfileId, setSelectedProfileId] = createSignal(
+    initialProfile.id,
+  );
+  const [activeProfileIds, setActiveProfileIds] = createSignal<string[]>([
+    initialProfile.id,
+  ]);
+  const [selectedRuleId, setSelectedRuleId] = createSignal(
+    initialProfile.rules[0].id,
+  );
   const [enabled, setEnabled] = createSignal(true);
-  const [domainInput, setDomainInput] = createSignal("");
-  const [domainMatchMode, setDomainMatchMode] =
-    createSignal<DomainMatchMode>("include_subdomains");
   const [temporaryMinutesInput, setTemporaryMinutesInput] = createSignal("0");
   const [statusMsg, setStatusMsg] = createSignal("");
   const [statusType, setStatusType] = createSignal<StatusType>("success");
+  const [view, setView] = createSignal<PopupView>("rules");
+  const [variables, setVariables] = createSignal<VariableConfig[]>([]);
+  const [scheduleWindows, setScheduleWindows] = createSignal<ScheduleWindow[]>(
+    [],
+  );
+  const [startsAtInput, setStartsAtInput] = createSignal("");
+  const [expiresAtInput, setExpiresAtInput] = createSignal("");
+  const [importOpen, setImportOpen] = createSignal(false);
+  const [historyOpen, setHistoryOpen] = createSignal(false);
+  const [exportChoiceOpen, setExportChoiceOpen] = createSignal(false);
+  const [applyPreview, setApplyPreview] = createSignal<ApplyPreview | null>(
+    null,
+  );
+  const [saving, setSaving] = createSignal(false);
+  // Header rows whose secret value is currently shown in clear text.
+  const [revealedHeaders, setRevealedHeaders] = createSignal(
+    new Set<HeaderConfig>(),
+  );
+  const [activeTabId, setActiveTabId] = createSignal<number | null>(null);
+  const [activeTabUrl, setActiveTabUrl] = createSignal<string | null>(null);
+  const [siteChoicesOpen, setSiteChoicesOpen] = createSignal(false);
+  const [variableScope, setVariableScope] =
+    createSignal<VariableScope>("global");
+
+  const selectedProfile = createMemo(
+    () =>
+      profiles().find((profile) => profile.id === selectedProfileId()) ??
+      profiles()[0],
+  );
 
-  let importFileInput: HTMLInputElement | undefined;
-
-  const setStatus = (msg: string, type: StatusType, timeoutMs = 3000) => {
-    setStatusMsg(msg);
-    setStatusType(type);
-    setTimeout(() => setStatusMsg(""), timeoutMs);
+  const updateSelectedProfile = (patch: Partial<ProfileDraft>) => {
+    const id = selectedProfile().id;
+    setProfiles(
+      profiles().map((profile) =>
+        profile.id === id ? { ...profile, ...patch } : profile,
+      ),
+    );
   };
 
-  const readLastError = (context: string) => {
-    const error = chrome.runtime.lastError;
-    if (error) {
-      throw new Error(`${context}: ${error.message}`);
-    }
-  };
+  const selectedRule = createMemo(() => {
+    const rules = selectedProfile().rules;
+    return rules.find((rule) => rule.id === selectedRuleId()) ?? rules[0];
+  });
 
-  const storageGet = (keys: string[]) =>
-    new Promise<StoredConfig>((resolve, reject) => {
-      chrome.storage.local.get(keys, (result) => {
-        try {
-          readLastError("Failed to read extension storage");
-          resolve(result as StoredConfig);
-        } catch (error) {
-          reject(error);
-        }
-      });
+  const updateRule = (id: number, patch: Partial<RuleDraft>) => {
+    updateSelectedProfile({
+      rules: selectedProfile().rules.map((rule) =>
+        rule.id === id ? { ...rule, ...patch } : rule,
+      ),
     });
+  };
 
-  const storageSet = (payload: StoredConfig) =>
-    new Promise<void>((resolve, reject) => {
-      chrome.storage.local.set(payload, () => {
-        try {
-          readLastError("Failed to persist extension storage");
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      });
+  const updateSelectedRule = (patch: Partial<RuleDraft>) =>
+    updateRule(selectedRule().id, patch);
+
+  // The header and scope editors always operate on the selected rule.
+  const updateRedirect = (patch: Partial<RedirectDraft>) =>
+    updateSelectedRule({ redirect: { ...selectedRule().redirect, ...patch } });
+
+  const headers = (target: HeaderTarget) =>
+    target === "request"
+      ? selectedRule().headers
+      : selectedRule().responseHeaders;
+  const setHeaders = (target: HeaderTarget, next: HeaderConfig[]) =>
+    updateSelectedRule(
+      target === "request" ? { headers: next } : { responseHeaders: next },
+    );
+  // The variable editor switches between the global and profile tables.
+  const scopedVariables = () =>
+    variableScope() === "global" ? variables() : selectedProfile().variables;
+  const setScopedVariables = (next: VariableConfig[]) => {
+    if (variableScope() === "global") {
+      setVariables(next);
+    } else {
+      updateSelectedProfile({ variables: next });
+    }
+  };
+  const domainInput = () => selectedRule().domainInput;
+  const setDomainInput = (next: string) =>
+    updateSelectedRule({ domainInput: next });
+  const domainMatchMode = () => selectedRule().domainMatchMode;
+  const setDomainMatchMode = (next: DomainMatchMode) =>
+    updateSelectedRule({ domainMatchMode: next });
+
+  // Keeps selections in canonical order so equal filters serialize equally.
+  const toggleValue = (list: string[], value: string, known: string[]) =>
+    list.includes(value)
+      ? list.filter((item) => item !== value)
+      : known.filter((item) => item === value || list.includes(item));
+
+  const toggleResourceType = (type: string) =>
+    updateSelectedRule({
+      resourceTypes: toggleValue(
+        selectedRule().resourceTypes,
+        type,
+        RESOURCE_TYPES,
+      ),
     });
 
-  const clearAlarm = (name: string) =>
-    new Promise<void>((resolve, reject) => {
-      if (!chrome.alarms) {
-        resolve();
-        return;
-      }
-      chrome.alarms.clear(name, () => {
-        try {
-          readLastError("Failed to clear extension alarm");
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      });
+  const toggleRequestMethod = (method: string) =>
+    updateSelectedRule({
+      requestMethods: toggleValue(
+        selectedRule().requestMethods,
+        method,
+        REQUEST_METHODS,
+      ),
     });
 
-  const createAlarm = (name: string, when: number) =>
-    new Promise<void>((resolve, reject) => {
-      if (!chrome.alarms) {
-        resolve();
-        return;
-      }
-      chrome.alarms.create(name, { when });
-      const error = chrome.runtime.lastError;
-      if (error) {
-        reject(
-          new Error(`Failed to schedule extension alarm: ${error.message}`),
-        );
-        return;
-      }
-      resolve();
-    });
+  const isFilterPresetActive = (filters: RequestFilters) => {
+    const rule = selectedRule();
+    return (
+      rule.resourceTypes.join() === filters.resourceTypes.join() &&
+      rule.requestMethods.join() === filters.requestMethods.join() &&
+      (rule.resourceTypes.length === 0 ||
+        rule.resourceTypeMode === filters.resourceTypeMode)
+    );
+  };
 
-  const syncExpiryAlarm = async (temporaryUntil: number | null) => {
-    await clearAlarm(ALARM_NAME);
-    if (temporaryUntil && temporaryUntil > Date.now()) {
-      await createAlarm(ALARM_NAME, temporaryUntil);
+  const describeInitiators = (rule: RuleDraft) => {
+    const included = parseInitiators(rule.initiatorInput).length;
+    const excluded = parseInitiators(rule.excludedInitiatorInput).length;
+    if (included === 0 && excluded === 0) {
+      return "Any site";
     }
+    return [
+      included > 0 && `from ${included} site${included === 1 ? "" : "s"}`,
+      excluded > 0 && `not from ${excluded}`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
   };
 
-  const getDynamicRules = () =>
-    new Promise<chrome.declarativeNetRequest.Rule[]>((resolve, reject) => {
-      chrome.declarativeNetRequest.getDynamicRules((rules) => {
-        try {
-          readLastError("Failed to read dynamic rules");
-          resolve(rules);
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
+  const describeFilters = (filters: RequestFilters) => {
+    const types =
+      filters.resourceTypes.length === 0
+        ? "All types"
+        : filters.resourceTypeMode === "exclude"
+          ? `All except ${filters.resourceTypes.length} type(s)`
+          : filters.resourceTypes.join(", ");
+    const methods =
+      filters.requestMethods.length === 0
+        ? "all methods"
+        : filters.requestMethods.join(", ").toUpperCase();
+    return `${types} · ${methods}`;
+  };
 
-  const updateDynamicRules = (
-    rulesToRemove: number[],
-    rulesToAdd: chrome.declarativeNetRequest.Rule[],
-  ) =>
-    new Promise<void>((resolve, reject) => {
-      chrome.declarativeNetRequest.updateDynamicRules(
-        { removeRuleIds: rulesToRemove, addRules: rulesToAdd },
-        () => {
-          try {
-            readLastError("Failed to update dynamic rules");
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        },
-      );
-    });
+  const nextRuleId = () =>
+    Math.max(
+      0,
+      ...profiles().flatMap((profile) => profile.rules.map((rule) => rule.id)),
+    ) + 1;
 
-  const parseDomains = (value: string) => {
-    const parts = value
-      .split(/[\n,]/)
-      .map((item) => item.trim().toLowerCase())
-      .filter((item) => item.length > 0);
+  const isProfileActive = (id: string) => activeProfileIds().includes(id);
 
-    return Array.from(new Set(parts));
+  const setStatus = (msg: string, type: StatusType, timeoutMs = 3000) => {
+    setStatusMsg(msg);
+    setStatusType(type);
+    setTimeout(() => setStatusMsg(""), timeoutMs);
   };
-  const parsedDomains = createMemo(() => parseDomains(domainInput()));
 
-  const isValidDomain = (domain: string) => {
-    if (domain === "localhost") {
-      return true;
+  const siteChoices = createMemo(() => siteScopeChoices(activeTabUrl() ?? ""));
+  const parsedDomains = createMemo(() =>
+    parseDomains(domainInput(), domainMatchMode()),
+  );
+
+  const describeRule = (rule: RuleDraft) => {
+    const { domains, excludedDomains } = splitExclusions(
+      parseDomains(rule.domainInput, rule.domainMatchMode),
+    );
+    const domainCount = domains.length;
+    const scope =
+      (domainCount === 0
+        ? "all sites"
+        : `${domainCount} domain${domainCount === 1 ? "" : "s"}`) +
+      (excludedDomains.length > 0 ? ` − ${excludedDomains.length}` : "");
+    if (rule.kind === "redirect") {
+      return `${rule.redirect.mode} redirect · ${scope}`;
     }
-    if (IPV4_RE.test(domain)) {
-      return true;
+    if (rule.kind === "block") {
+      return `block · ${scope}`;
     }
-    return HOST_RE.test(domain);
-  };
 
-  const normalizeHeaders = (rawHeaders: HeaderConfig[]) =>
-    rawHeaders
-      .filter(
-        (header) => header.key.trim() !== "" || header.value.trim() !== "",
-      )
-      .map((header) => ({
-        key: header.key.trim(),
-        value: header.value.trim(),
-      }));
+    const headerCount = [...rule.headers, ...rule.responseHeaders].filter(
+      (header) => header.key.trim() !== "",
+    ).length;
+    return `${headerCount} header${headerCount === 1 ? "" : "s"} · ${scope}`;
+  };
 
   const parseTemporaryMinutes = (value: string) => {
     const trimmed = value.trim();
@@ -206,192 +384,165 @@ function App() {
     return parsed;
   };
 
-  const validateConfig = (
-    rawHeaders: HeaderConfig[],
-    rawDomainInput: string,
-  ): { ok: true; payload: ValidatedPayload } | { ok: false; error: string } => {
-    const normalizedHeaders = normalizeHeaders(rawHeaders);
-    const keySet = new Set<string>();
-
-    for (const header of normalizedHeaders) {
-      if (header.key === "" || header.value === "") {
-        return {
-          ok: false,
-          error: "All non-empty headers must include both key and value.",
-        };
-      }
-
-      if (!HEADER_NAME_RE.test(header.key)) {
-        return { ok: false, error: `Invalid header key: ${header.key}` };
-      }
+  const parseDateTimeInput = (value: string) => {
+    if (value.trim() === "") {
+      return null;
+    }
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  };
 
-      if (/[\r\n]/.test(header.value)) {
+  const validateSchedule = ():
+    { ok: true; schedule: ScheduleConfig } | { ok: false; error: string } => {
+    const windows = scheduleWindows();
+    for (const [index, window] of windows.entries()) {
+      if (window.days.length === 0) {
         return {
           ok: false,
-          error: `Invalid header value for ${header.key}: newline characters are not allowed.`,
+          error: `Schedule window ${index + 1} needs at least one day.`,
         };
       }
-
-      const normalizedKey = header.key.toLowerCase();
-      if (keySet.has(normalizedKey)) {
-        return { ok: false, error: `Duplicate header key: ${header.key}` };
-      }
-      keySet.add(normalizedKey);
-    }
-
-    const domains = parseDomains(rawDomainInput);
-    for (const domain of domains) {
-      if (!isValidDomain(domain)) {
-        return { ok: false, error: `Invalid domain pattern: ${domain}` };
-      }
-
       if (
-        domainMatchMode() === "subdomains_only" &&
-        (domain === "localhost" || IPV4_RE.test(domain))
+        parseClockTime(window.start) === null ||
+        parseClockTime(window.end) === null
       ) {
         return {
           ok: false,
-          error: `Subdomains-only mode does not support ${domain}.`,
+          error: `Schedule window ${index + 1} needs a start and end time.`,
         };
       }
     }
 
-    const temporaryMinutes = parseTemporaryMinutes(temporaryMinutesInput());
-    if (temporaryMinutes === null) {
-      return {
-        ok: false,
-        error: "Temporary minutes must be an integer between 0 and 1440.",
-      };
+    const startsAt = parseDateTimeInput(startsAtInput());
+    const expiresAt = parseDateTimeInput(expiresAtInput());
+    if (startsAt === undefined || expiresAt === undefined) {
+      return { ok: false, error: "Invalid schedule date." };
+    }
+    if (startsAt !== null && expiresAt !== null && expiresAt <= startsAt) {
+      return { ok: false, error: "Schedule expiry must be after its start." };
     }
 
     return {
       ok: true,
-      payload: { headers: normalizedHeaders, domains, temporaryMinutes },
+      schedule: {
+        windows: windows.map((window) => ({
+          ...window,
+          days: [...window.days].sort((a, b) => a - b),
+        })),
+        startsAt,
+        expiresAt,
+      },
     };
   };
 
-  const buildCondition = (
-    domain: string,
-    mode: DomainMatchMode,
-  ): chrome.declarativeNetRequest.RuleCondition => {
-    const normalizedDomain = stripWildcardPrefix(domain);
-    const resourceTypes = Object.values(
-      chrome.declarativeNetRequest.ResourceType,
-    ) as chrome.declarativeNetRequest.ResourceType[];
-
-    if (mode === "include_subdomains") {
-      return {
-        urlFilter: `||${normalizedDomain}/`,
-        resourceTypes,
-      };
+  const scheduleStatus = createMemo(() => {
+    const result = validateSchedule();
+    if (!result.ok) {
+      return result.error;
+    }
+    const { schedule } = result;
+    if (!hasSchedule(schedule)) {
+      return "No schedule: rules run whenever enabled.";
     }
 
-    const escapedDomain = escapeRegex(normalizedDomain);
-    if (mode === "exact") {
-      return {
-        regexFilter: `^https?:\\/\\/${escapedDomain}(?::\\d+)?\\/`,
-        resourceTypes,
-      };
+    const now = Date.now();
+    const active = isScheduleActive(schedule, now);
+    const next = nextScheduleChange(schedule, now);
+    const state = active ? "Active now" : "Off now";
+    if (next === null) {
+      return active ? `${state}.` : `${state}, with no upcoming window.`;
     }
+    return `${state} · turns ${active ? "off" : "on"} ${formatDateTime(next)}`;
+  });
 
-    return {
-      regexFilter: `^https?:\\/\\/(?:[^./]+\\.)+${escapedDomain}(?::\\d+)?\\/`,
-      resourceTypes,
-    };
+  const loadSchedule = (schedule: ScheduleConfig) => {
+    setScheduleWindows(
+      schedule.windows.map((window) => ({
+        ...window,
+        days: [...window.days],
+      })),
+    );
+    setStartsAtInput(toDateTimeInput(schedule.startsAt));
+    setExpiresAtInput(toDateTimeInput(schedule.expiresAt));
   };
 
-  const buildRule = (
-    id: number,
-    validHeaders: HeaderConfig[],
-    condition: chrome.declarativeNetRequest.RuleCondition,
-  ): chrome.declarativeNetRequest.Rule => ({
-    id,
-    priority: 1,
-    action: {
-      type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
-      requestHeaders: validHeaders.map((header) => ({
-        header: header.key,
-        operation: chrome.declarativeNetRequest.HeaderOperation.SET,
-        value: header.value,
-      })),
-    },
-    condition,
-  });
+  const addScheduleWindow = () =>
+    setScheduleWindows([
+      ...scheduleWindows(),
+      { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" },
+    ]);
 
-  const updateRules = async (
-    validHeaders: HeaderConfig[],
-    ruleDomains: string[],
-    isEnabled: boolean,
-    mode: DomainMatchMode,
-  ) => {
-    if (!chrome.declarativeNetRequest) {
-      return;
-    }
+  const removeScheduleWindow = (index: number) =>
+    setScheduleWindows(scheduleWindows().filter((_, i) => i !== index));
 
-    const existingRules = await getDynamicRules();
-    const desiredRules: chrome.declarativeNetRequest.Rule[] =
-      !isEnabled || validHeaders.length === 0
-        ? []
-        : ruleDomains.length === 0
-          ? [
-              buildRule(1, validHeaders, {
-                urlFilter: "*",
-                resourceTypes: Object.values(
-                  chrome.declarativeNetRequest.ResourceType,
-                ) as chrome.declarativeNetRequest.ResourceType[],
-              }),
-            ]
-          : ruleDomains.map((domain, index) =>
-              buildRule(index + 1, validHeaders, buildCondition(domain, mode)),
-            );
-
-    const existingMap = new Map(existingRules.map((rule) => [rule.id, rule]));
-    const desiredMap = new Map(desiredRules.map((rule) => [rule.id, rule]));
-
-    const serializeRule = (rule: chrome.declarativeNetRequest.Rule) =>
-      JSON.stringify({
-        priority: rule.priority,
-        action: rule.action,
-        condition: rule.condition,
-      });
+  const updateScheduleWindow = (
+    index: number,
+    patch: Partial<ScheduleWindow>,
+  ) =>
+    setScheduleWindows(
+      scheduleWindows().map((window, i) =>
+        i === index ? { ...window, ...patch } : window,
+      ),
+    );
+
+  const toggleScheduleDay = (index: number, day: number) => {
+    const { days } = scheduleWindows()[index];
+    updateScheduleWindow(index, {
+      days: days.includes(day)
+        ? days.filter((item) => item !== day)
+        : [...days, day],
+    });
+  };
 
-    const removeRuleIds = existingRules
-      .filter((rule) => {
-        const desiredRule = desiredMap.get(rule.id);
-        return (
-          !desiredRule || serializeRule(desiredRule) !== serializeRule(rule)
-        );
-      })
-      .map((rule) => rule.id);
+  const validateConfig = ():
+    { ok: true; payload: ValidatedPayload } | { ok: false; error: string } => {
+    const result = validateProfiles(profiles(), variables());
+    if (!result.ok) {
+      return result;
+    }
 
-    const addRules = desiredRules.filter((rule) => {
-      const existingRule = existingMap.get(rule.id);
-      return (
-        !existingRule || serializeRule(existingRule) !== serializeRule(rule)
-      );
-    });
+    const temporaryMinutes = parseTemporaryMinutes(temporaryMinutesInput());
+    if (temporaryMinutes === null) {
+      return {
+        ok: false,
+        error: "Temporary minutes must be an integer between 0 and 1440.",
+      };
+    }
 
-    if (removeRuleIds.length === 0 && addRules.length === 0) {
-      return;
+    const scheduleResult = validateSchedule();
+    if (!scheduleResult.ok) {
+      return scheduleResult;
     }
 
-    await updateDynamicRules(removeRuleIds, addRules);
+    return {
+      ok: true,
+      payload: {
+        profiles: result.profiles,
+        variables: result.variables,
+        temporaryMinutes,
+        schedule: scheduleResult.schedule,
+        warnings: result.warnings,
+      },
+    };
   };
 
-  const exportConfig = () => {
-    const result = validateConfig(headers(), domainInput());
+  // Secret values are left out unless the user explicitly includes them.
+  const exportConfig = (includeSecrets: boolean) => {
+    setExportChoiceOpen(false);
+    const result = validateConfig();
     if (!result.ok) {
       setStatus(result.error, "error");
       return;
     }
 
     const payload = {
-      version: 1,
+      version: CONFIG_VERSION,
       enabled: enabled(),
-      headers: result.payload.headers,
-      domains: result.payload.domains,
-      domainMatchMode: domainMatchMode(),
+      activeProfileIds: activeProfileIds(),
+      profiles: redactSecrets(result.payload.profiles, includeSecrets),
+      variables: result.payload.variables,
       temporaryMinutes: result.payload.temporaryMinutes,
+      schedule: result.payload.schedule,
     };
 
     const blob = new Blob([JSON.stringify(payload, null, 2)], {
@@ -405,74 +556,66 @@ function App() {
     URL.revokeObjectURL(url);
   };
 
-  const importConfig = async (event: Event) => {
-    const target = event.currentTarget as HTMLInputElement;
-    const file = target.files?.[0];
-    if (!file) {
-      return;
+  const replaceWithImport = ({ profiles: imported, config }: ImportPreview) => {
+    const importedActiveIds = readActiveProfileIds(
+      config?.activeProfileIds,
+      imported,
+    );
+    const drafts = imported.map(profileToDraft);
+    setProfiles(drafts);
+    setActiveProfileIds(importedActiveIds);
+    setSelectedProfileId(importedActiveIds[0] ?? drafts[0].id);
+
+    // Only our own exports carry settings beyond the profiles, and those
+    // have already been migrated and validated by the schema.
+    if (config) {
+      setVariables(parseStoredVariables(config.variables));
+      setEnabled(typeof config.enabled === "boolean" ? config.enabled : true);
+      setTemporaryMinutesInput(String(config.temporaryMinutes ?? 0));
+      loadSchedule(parseStoredSchedule(config.schedule));
     }
+  };
 
-    try {
-      const text = await file.text();
-      const data = JSON.parse(text) as {
-        enabled?: unknown;
-        headers?: unknown;
-        domains?: unknown;
-        domainMatchMode?: unknown;
-        temporaryMinutes?: unknown;
-      };
-
-      const importedHeaders = Array.isArray(data.headers)
-        ? data.headers
-            .filter(
-              (item): item is HeaderConfig =>
-                typeof item === "object" &&
-                item !== null &&
-                "key" in item &&
-                "value" in item &&
-                typeof (item as { key: unknown }).key === "string" &&
-                typeof (item as { value: unknown }).value === "string",
-            )
-            .map((item) => ({ key: item.key, value: item.value }))
-        : DEFAULT_HEADERS;
-
-      const importedDomains = Array.isArray(data.domains)
-        ? data.domains.filter(
-            (item): item is string => typeof item === "string",
-          )
-        : [];
-
-      const importedMode: DomainMatchMode =
-        data.domainMatchMode === "exact" ||
-        data.domainMatchMode === "include_subdomains" ||
-        data.domainMatchMode === "subdomains_only"
-          ? data.domainMatchMode
-          : "include_subdomains";
-
-      const importedTemporaryMinutes =
-        typeof data.temporaryMinutes === "number" &&
-        Number.isFinite(data.temporaryMinutes)
-          ? Math.max(0, Math.min(1440, Math.round(data.temporaryMinutes)))
-          : 0;
-
-      setHeaders(
-        importedHeaders.length > 0 ? importedHeaders : DEFAULT_HEADERS,
-      );
-      setEnabled(typeof data.enabled === "boolean" ? data.enabled : true);
-      setDomainInput(importedDomains.join("\n"));
-      setDomainMatchMode(importedMode);
-      setTemporaryMinutesInput(String(importedTemporaryMinutes));
+  // Merged profiles get fresh IDs and names so nothing existing is touched.
+  const mergeImport = ({ profiles: imported, config }: ImportPreview) => {
+    let ruleId = nextRuleId();
+    const merged = [...profiles()];
+    const drafts = imported.map((profile) => {
+      const draft = profileToDraft({
+        ...profile,
+        id: crypto.randomUUID(),
+        name: nextProfileName(profile.name, merged),
+        rules: profile.rules.map((rule) => ({ ...rule, id: ruleId++ })),
+      });
+      merged.push(draft);
+      return draft;
+    });
+    setProfiles(merged);
+    setSelectedProfileId(drafts[0].id);
+
+    if (config) {
+      const names = new Set(variables().map((variable) => variable.name));
+      setVariables([
+        ...variables(),
+        ...parseStoredVariables(config.variables).filter(
+          (variable) => !names.has(variable.name),
+        ),
+      ]);
+    }
+  };
 
-      setStatus(
-        "Config imported. Click Save & Apply Changes to activate.",
-        "success",
-        4000,
-      );
-    } catch {
-      setStatus("Failed to import config JSON.", "error", 4000);
-    } finally {
-      target.value = "";
+  const applyImport = (preview: ImportPreview, mode: ImportMode) => {
+    if (mode === "replace") {
+      replaceWithImport(preview);
+    } else {
+      mergeImport(preview);
     }
+    setImportOpen(false);
+    setStatus(
+      `${preview.profiles.length} profile(s) imported. Click Save & Apply Changes to activate.`,
+      "success",
+      4000,
+    );
   };
 
   onMount(() => {
@@ -491,39 +634,9 @@ function App() {
 
     void (async () => {
       try {
-        const result = await storageGet([
-          "headers",
-          "enabled",
-          "domains",
-          "domainMatchMode",
-          "temporaryUntil",
-        ]);
-        if (result.headers && result.headers.length > 0) {
-          setHeaders(result.headers);
-        }
-        if (result.enabled !== undefined) {
-          setEnabled(result.enabled);
-        }
-        if (result.domains && result.domains.length > 0) {
-          setDomainInput(result.domains.join("\n"));
-        }
-        if (
-          result.domainMatchMode === "exact" ||
-          result.domainMatchMode === "include_subdomains" ||
-          result.domainMatchMode === "subdomains_only"
-        ) {
-          setDomainMatchMode(result.domainMatchMode);
-        }
-
-        if (
-          typeof result.temporaryUntil === "number" &&
-          result.temporaryUntil > Date.now()
-        ) {
-          const remaining = Math.ceil(
-            (result.temporaryUntil - Date.now()) / 60000,
-          );
-          setTemporaryMinutesInput(String(Math.max(1, remaining)));
-        }
+        setActiveTabId(await getActiveTabId());
+        setActiveTabUrl(await getActiveTabUrl());
+        await loadStoredConfig();
       } catch (error) {
         const message =
           error instanceof Error
@@ -534,22 +647,341 @@ function App() {
     })();
   });
 
-  const addHeader = () => {
-    setHeaders([...headers(), { key: "", value: "" }]);
+  // Secrets are shown decrypted while unlocked; locked ones stay sealed.
+  const loadIntoEditor = (config: AppliedConfig) => {
+    const drafts = config.profiles.map(profileToDraft);
+    setProfiles(drafts);
+    setActiveProfileIds(config.activeProfileIds);
+    setSelectedProfileId(config.activeProfileIds[0] ?? drafts[0].id);
+    setVariables(config.variables);
+    setEnabled(config.enabled);
+    loadSchedule(config.schedule);
+
+    if (config.temporaryUntil !== null && config.temporaryUntil > Date.now()) {
+      const remaining = Math.ceil((config.temporaryUntil - Date.now()) / 60000);
+      setTemporaryMinutesInput(String(Math.max(1, remaining)));
+    } else {
+      setTemporaryMinutesInput("0");
+    }
+  };
+
+  const loadStoredConfig = async () => {
+    const { config, error } = await loadEditableConfig();
+    if (error) {
+      setStatus(error, "error", 6000);
+    }
+    loadIntoEditor(config);
+  };
+
+  // The snapshot goes through the editor, so it is validated and applied
+  // like any other save. If that fails, it stays there to be fixed.
+  const restoreSnapshot = async (entry: HistoryEntry) => {
+    try {
+      const key = await readSecretKey();
+      loadIntoEditor({
+        ...entry.config,
+        profiles: await unsealProfiles(entry.config.profiles, key),
+      });
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Failed to restore settings.",
+        "error",
+        4500,
+      );
+      return;
+    }
+    await saveConfig(entry.savedAt);
+  };
+
+  const unsealDrafts = async () => {
+    const key = await readSecretKey();
+    setProfiles(
+      await Promise.all(
+        profiles().map(async (profile) => ({
+          ...profile,
+          rules: await Promise.all(
+            profile.rules.map(async (rule) => ({
+              ...rule,
+              headers: await unsealHeaders(rule.headers, key),
+              responseHeaders: await unsealHeaders(rule.responseHeaders, key),
+            })),
+          ),
+        })),
+      ),
+    );
+  };
+
+  const handleSecretsChange = async (change: SecretsChange) => {
+    try {
+      if (change === "unlocked") {
+        await unsealDrafts();
+        setStatus("Secrets unlocked until the browser closes.", "success");
+      } else if (change === "locked") {
+        // Reloading drops the decrypted values, and unsaved edits with them.
+        await loadStoredConfig();
+        setStatus("Secrets locked.", "success");
+      } else if (change === "encrypted") {
+        setStatus("Secret values are now encrypted at rest.", "success");
+      } else {
+        setStatus(
+          "Passphrase removed; secrets are stored unencrypted.",
+          "success",
+        );
+      }
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Failed to update secrets.",
+        "error",
+        4500,
+      );
+    }
+  };
+
+  const secretCount = createMemo(
+    () =>
+      profiles()
+        .flatMap((profile) => profile.rules)
+        .flatMap((rule) => [...rule.headers, ...rule.responseHeaders])
+        .filter((header) => header.secret).length,
+  );
+
+  const toggleReveal = (header: HeaderConfig) => {
+    const next = new Set(revealedHeaders());
+    if (!next.delete(header)) {
+      next.add(header);
+    }
+    setRevealedHeaders(next);
+  };
+
+  const toggleHeaderSecret = (target: HeaderTarget, index: number) => {
+    setHeaders(
+      target,
+      headers(target).map((header, itemIndex) =>
+        itemIndex === index
+          ? {
+              key: header.key,
+              value: header.value,
+              operation: header.operation,
+              ...(!header.secret && { secret: true }),
+            }
+          : header,
+      ),
+    );
+  };
+
+  const addHeader = (target: HeaderTarget) => {
+    setHeaders(target, [
+      ...headers(target),
+      { key: "", value: "", operation: "set" },
+    ]);
   };
 
-  const removeHeader = (index: number) => {
-    const newHeaders = headers().filter((_, itemIndex) => itemIndex !== index);
-    setHeaders(newHeaders.length > 0 ? newHeaders : DEFAULT_HEADERS);
+  const removeHeader = (target: HeaderTarget, index: number) => {
+    const newHeaders = headers(target).filter(
+      (_, itemIndex) => itemIndex !== index,
+    );
+    setHeaders(
+      target,
+      newHeaders.length > 0 ? newHeaders : createDefaultHeaders(),
+    );
   };
 
-  const updateHeader = (index: number, field: "key" | "value", val: string) => {
-    const newHeaders = [...headers()];
+  const updateHeader = (
+    target: HeaderTarget,
+    index: number,
+    field: "key" | "value",
+    val: string,
+  ) => {
+    const newHeaders = [...headers(target)];
     newHeaders[index][field] = val;
-    setHeaders(newHeaders);
+    setHeaders(target, newHeaders);
+  };
+
+  // Replacing the row object re-renders it, so the value input picks up the
+  // disabled state for remove operations.
+  const updateHeaderOperation = (
+    target: HeaderTarget,
+    index: number,
+    operation: HeaderOperation,
+  ) => {
+    setHeaders(
+      target,
+      headers(target).map((header, itemIndex) =>
+        itemIndex === index
+          ? {
+              ...header,
+              operation,
+              value: operation === "remove" ? "" : header.value,
+            }
+          : header,
+      ),
+    );
+  };
+
+  const addVariable = () => {
+    setScopedVariables([...scopedVariables(), { name: "", value: "" }]);
+  };
+
+  const removeVariable = (index: number) => {
+    setScopedVariables(
+      scopedVariables().filter((_, itemIndex) => itemIndex !== index),
+    );
+  };
+
+  const updateVariable = (
+    index: number,
+    field: "name" | "value",
+    val: string,
+  ) => {
+    const newVariables = [...scopedVariables()];
+    newVariables[index][field] = val;
+    setScopedVariables(newVariables);
+  };
+
+  const nextProfileName = (base: string, existing = profiles()) => {
+    const names = new Set(
+      existing.map((profile) => profile.name.trim().toLowerCase()),
+    );
+    if (!names.has(base.toLowerCase())) {
+      return base;
+    }
+    let suffix = 2;
+    while (names.has(`${base} ${suffix}`.toLowerCase())) {
+      suffix += 1;
+    }
+    return `${base} ${suffix}`;
+  };
+
+  const createProfile = () => {
+    const draft = createProfileDraft(nextProfileName("Profile"), nextRuleId());
+    setProfiles([...profiles(), draft]);
+    setSelectedProfileId(draft.id);
+  };
+
+  const duplicateProfile = () => {
+    const source = selectedProfile();
+    const firstRuleId = nextRuleId();
+    const draft: ProfileDraft = {
+      id: crypto.randomUUID(),
+      name: nextProfileName(`${source.name.trim()} copy`),
+      rules: source.rules.map((rule, index) =>
+        copyRuleDraft(rule, firstRuleId + index, rule.name),
+      ),
+      variables: copyVariables(source.variables),
+    };
+    setProfiles([...profiles(), draft]);
+    setSelectedProfileId(draft.id);
+  };
+
+  const renameProfile = (name: string) => {
+    updateSelectedProfile({ name });
+  };
+
+  const deleteProfile = () => {
+    if (profiles().length <= 1) {
+      setStatus("At least one profile is required.", "error");
+      return;
+    }
+
+    const id = selectedProfile().id;
+    const remaining = profiles().filter((profile) => profile.id !== id);
+    setProfiles(remaining);
+    setActiveProfileIds(activeProfileIds().filter((item) => item !== id));
+    setSelectedProfileId(remaining[0].id);
+  };
+
+  const toggleProfileActive = (id: string) => {
+    setActiveProfileIds(
+      isProfileActive(id)
+        ? activeProfileIds().filter((item) => item !== id)
+        : [...activeProfileIds(), id],
+    );
+  };
+
+  const addRule = () => {
+    const rules = selectedProfile().rules;
+    const draft = createRuleDraft(nextRuleId(), `Rule ${rules.length + 1}`);
+    updateSelectedProfile({ rules: [...rules, draft] });
+    setSelectedRuleId(draft.id);
+  };
+
+  const duplicateRule = () => {
+    const source = selectedRule();
+    const draft = copyRuleDraft(
+      source,
+      nextRuleId(),
+      `${source.name.trim()} copy`,
+    );
+    updateSelectedProfile({ rules: [...selectedProfile().rules, draft] });
+    setSelectedRuleId(draft.id);
+  };
+
+  const deleteRule = (id: number) => {
+    const rules = selectedProfile().rules;
+    if (rules.length <= 1) {
+      setStatus("A profile needs at least one rule.", "error");
+      return;
+    }
+
+    const remaining = rules.filter((rule) => rule.id !== id);
+    updateSelectedProfile({ rules: remaining });
+    if (selectedRule().id === id) {
+      setSelectedRuleId(remaining[0].id);
+    }
+  };
+
+  // Adds the active tab's site to the selected rule, or to a copy of it
+  // when the rule already scopes other entries with a different mode.
+  const applyToSite = async (choice: SiteChoice) => {
+    setSiteChoicesOpen(false);
+    const rule = selectedRule();
+    if (rule.kind !== "headers") {
+      setStatus("Select a header rule to apply to this site.", "error");
+      return;
+    }
+    const scopeError = validateScopeEntry(choice.entry, choice.mode);
+    if (scopeError) {
+      setStatus(scopeError, "error");
+      return;
+    }
+
+    const entries = parseDomains(rule.domainInput, rule.domainMatchMode);
+    const { domains } = splitExclusions(entries);
+    const reusable =
+      rule.domainMatchMode === choice.mode ||
+      (domains.length === 0 &&
+        (rule.domainMatchMode !== "regex" || entries.length === 0));
+    if (!reusable) {
+      const draft: RuleDraft = {
+        ...copyRuleDraft(rule, nextRuleId(), choice.label),
+        enabled: true,
+        domainInput: choice.entry,
+        domainMatchMode: choice.mode,
+      };
+      updateSelectedProfile({ rules: [...selectedProfile().rules, draft] });
+      setSelectedRuleId(draft.id);
+    } else if (!domains.includes(choice.entry)) {
+      const input = rule.domainInput.trimEnd();
+      updateSelectedRule({
+        enabled: true,
+        domainInput: input === "" ? choice.entry : `${input}\n${choice.entry}`,
+        domainMatchMode: choice.mode,
+      });
+    }
+
+    if (!isProfileActive(selectedProfile().id)) {
+      setActiveProfileIds([...activeProfileIds(), selectedProfile().id]);
+    }
+    await saveConfig();
+  };
+
+  const switchToProfile = async (id: string) => {
+    setSelectedProfileId(id);
+    setActiveProfileIds([id]);
+    await saveConfig();
   };
 
-  const saveConfig = async () => {
+  const hasExtensionApis = () => {
     if (
       typeof chrome === "undefined" ||
       !chrome.storage ||
@@ -559,76 +991,571 @@ function App() {
         "Chrome extension APIs are unavailable in this environment.",
         "error",
       );
-      return;
+      return false;
     }
+    return true;
+  };
 
-    const result = validateConfig(headers(), domainInput());
+  // Validates the editor and builds the config the background worker will
+  // persist and compile.
+  const buildAppliedConfig = async (): Promise<
+    | {
+        ok: true;
+        config: AppliedConfig;
+        temporaryMinutes: number;
+        warnings: string[];
+      }
+    | { ok: false; error: string }
+  > => {
+    const result = validateConfig();
     if (!result.ok) {
-      setStatus(result.error, "error");
-      return;
+      return result;
     }
 
     const {
-      headers: validHeaders,
-      domains: validDomains,
+      profiles: validProfiles,
+      variables: validVariables,
       temporaryMinutes,
+      schedule,
+      warnings,
     } = result.payload;
-    const temporaryUntil =
-      enabled() && temporaryMinutes > 0
-        ? Date.now() + temporaryMinutes * 60_000
-        : null;
+    const regexError = await checkRegexSupport(validProfiles);
+    if (regexError) {
+      return { ok: false, error: regexError };
+    }
 
-    try {
-      await storageSet({
-        headers: validHeaders,
+    return {
+      ok: true,
+      config: {
+        profiles: validProfiles,
+        activeProfileIds: activeProfileIds(),
         enabled: enabled(),
-        domains: validDomains,
-        domainMatchMode: domainMatchMode(),
-        temporaryUntil,
-      });
+        temporaryUntil:
+          enabled() && temporaryMinutes > 0
+            ? Date.now() + temporaryMinutes * 60_000
+            : null,
+        variables: validVariables,
+        schedule,
+      },
+      temporaryMinutes,
+      warnings,
+    };
+  };
 
-      await updateRules(
-        validHeaders,
-        validDomains,
-        enabled(),
-        domainMatchMode(),
-      );
-      await syncExpiryAlarm(temporaryUntil);
+  const previewApply = async () => {
+    if (!hasExtensionApis()) {
+      return;
+    }
 
-      if (temporaryUntil) {
-        setStatus(
-          `Changes applied. Auto-disable in ${temporaryMinutes} minute(s).`,
-          "success",
-          3500,
-        );
-      } else {
-        setStatus("Changes applied successfully.", "success", 2500);
+    setSaving(true);
+    try {
+      const result = await buildAppliedConfig();
+      if (!result.ok) {
+        setStatus(result.error, "error", 4500);
+        return;
       }
+      setApplyPreview(await buildApplyPreview(result.config));
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : "Unexpected save error.";
+        error instanceof Error ? error.message : "Failed to compile rules.";
       setStatus(message, "error", 4500);
+    } finally {
+      setSaving(false);
     }
   };
 
-  const applyTemporaryPreset = (minutes: number) => {
-    setTemporaryMinutesInput(String(minutes));
-  };
+  const saveConfig = async (restoredFrom?: number) => {
+    if (!hasExtensionApis()) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await buildAppliedConfig();
+      if (!result.ok) {
+        setStatus(result.error, "error", 4500);
+        return;
+      }
+
+      // Compiling first turns quota and regex problems into readable
+      // errors instead of Chrome's rejection of the whole update.
+      const { config, temporaryMinutes, warnings } = result;
+      const preview = await buildApplyPreview(config);
+      if (preview.errors.length > 0) {
+        setApplyPreview(preview);
+        setStatus(preview.errors[0], "error", 4500);
+        return;
+      }
+
+      // The background worker persists the config and compiles the rules,
+      // rolling storage back if Chrome rejects them.
+      await sendMessage({ type: "apply", config, restoredFrom });
+      setApplyPreview(null);
+
+      if (warnings.length > 0) {
+        setStatus(`Changes applied. ${warnings[0]}`, "success", 6000);
+      } else if (enabled() && !isScheduleActive(config.schedule, Date.now())) {
+        setStatus(`Changes saved. ${scheduleStatus()}`, "success", 3500);
+      } else if (config.temporaryUntil) {
+        setStatus(
+          `Changes applied. Auto-disable in ${temporaryMinutes} minute(s).`,
+          "success",
+          3500,
+        );
+      } else {
+        setStatus("Changes applied successfully.", "success", 2500);
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unexpected save error.";
+      setStatus(message, "error", 4500);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Compiles the editor's current state into session rules for the active
+  // tab only; nothing is persisted and the global rules are left alone.
+  const applyToCurrentTab = async () => {
+    const tabId = activeTabId();
+    if (tabId === null) {
+      setStatus("No active tab to apply rules to.", "error");
+      return;
+    }
+
+    const result = validateConfig();
+    if (!result.ok) {
+      setStatus(result.error, "error");
+      return;
+    }
+
+    try {
+      const regexError = await checkRegexSupport(result.payload.profiles);
+      if (regexError) {
+        setStatus(regexError, "error", 4500);
+        return;
+      }
+
+      await sendMessage({
+        type: "applyToTab",
+        tabId,
+        config: {
+          profiles: result.payload.profiles,
+          activeProfileIds: activeProfileIds(),
+          enabled: true,
+          temporaryUntil: null,
+          variables: result.payload.variables,
+          // Tab-only rules are applied on demand, outside the schedule.
+          schedule: createScheduleConfig(),
+        },
+      });
+      setStatus("Applied to this tab only until it closes.", "success", 3000);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unexpected apply error.";
+      setStatus(message, "error", 4500);
+    }
+  };
+
+  // Unsaved popup edits are not carried over; the options page reads the
+  // stored config.
+  const openFullEditor = async () => {
+    try {
+      await openOptionsPage();
+      window.close();
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Failed to open the editor.",
+        "error",
+      );
+    }
+  };
+
+  const applyTemporaryPreset = (minutes: number) => {
+    setTemporaryMinutesInput(String(minutes));
+  };
 
   const modeIndexMap: Record<DomainMatchMode, number> = {
     exact: 0,
     include_subdomains: 1,
     subdomains_only: 2,
+    regex: 3,
   };
+  const modeCount = Object.keys(modeIndexMap).length;
 
   const sliderStyle = createMemo(() => {
     const index = modeIndexMap[domainMatchMode()];
     return {
-      left: `calc(4px + ${index} * ((100% - 8px) / 3))`,
-      width: "calc((100% - 8px) / 3)",
+      left: `calc(4px + ${index} * ((100% - 8px) / ${modeCount}))`,
+      width: `calc((100% - 8px) / ${modeCount})`,
     };
   });
 
+  const segmentStyle = (index: number, count: number) => ({
+    left: `calc(4px + ${index} * ((100% - 8px) / ${count}))`,
+    width: `calc((100% - 8px) / ${count})`,
+  });
+
+  const redirectInputClass =
+    "w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus";
+
+  const renderRedirectSection = () => (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center gap-2">
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="12"
+          height="12"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          stroke-width="2.5"
+          stroke-linecap="round"
+          stroke-linejoin="round"
+          class="text-muted-foreground"
+        >
+          <polyline points="15 10 20 15 15 20" />
+          <path d="M4 4v7a4 4 0 0 0 4 4h12" />
+        </svg>
+        <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+          Redirect
+        </h2>
+      </div>
+      <div class="segmented-control rounded-xl bg-muted/30 p-1">
+        <div
+          class="slider"
+          style={segmentStyle(
+            REDIRECT_MODES.findIndex(
+              (item) => item.mode === selectedRule().redirect.mode,
+            ),
+            REDIRECT_MODES.length,
+          )}
+        />
+        <div class="flex relative">
+          <For each={REDIRECT_MODES}>
+            {(item) => (
+              <button
+                onClick={() => updateRedirect({ mode: item.mode })}
+                class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors"
+                classList={{
+                  "text-foreground": selectedRule().redirect.mode === item.mode,
+                  "text-muted-foreground hover:text-foreground/70":
+                    selectedRule().redirect.mode !== item.mode,
+                }}
+              >
+                {item.label}
+              </button>
+            )}
+          </For>
+        </div>
+      </div>
+      <Show when={selectedRule().redirect.mode === "url"}>
+        <input
+          type="text"
+          value={selectedRule().redirect.url}
+          onInput={(event) =>
+            updateRedirect({ url: event.currentTarget.value })
+          }
+          placeholder="https://staging.example.com/"
+          class={redirectInputClass}
+        />
+      </Show>
+      <Show when={selectedRule().redirect.mode === "regex"}>
+        <input
+          type="text"
+          value={selectedRule().redirect.regexSubstitution}
+          onInput={(event) =>
+            updateRedirect({ regexSubstitution: event.currentTarget.value })
+          }
+          placeholder="https://staging.example.com/\1"
+          class={redirectInputClass}
+        />
+      </Show>
+      <Show when={selectedRule().redirect.mode === "transform"}>
+        <div class="grid grid-cols-[64px_1fr_64px] gap-1.5">
+          <input
+            type="text"
+            value={selectedRule().redirect.scheme}
+            onInput={(event) =>
+              updateRedirect({ scheme: event.currentTarget.value })
+            }
+            placeholder="https"
+            class={redirectInputClass}
+          />
+          <input
+            type="text"
+            value={selectedRule().redirect.host}
+            onInput={(event) =>
+              updateRedirect({ host: event.currentTarget.value })
+            }
+            placeholder="localhost"
+            class={redirectInputClass}
+          />
+          <input
+            type="text"
+            value={selectedRule().redirect.port}
+            onInput={(event) =>
+              updateRedirect({ port: event.currentTarget.value })
+            }
+            placeholder="3000"
+            class={redirectInputClass}
+          />
+        </div>
+        <input
+          type="text"
+          value={selectedRule().redirect.path}
+          onInput={(event) =>
+            updateRedirect({ path: event.currentTarget.value })
+          }
+          placeholder="/new/path"
+          class={redirectInputClass}
+        />
+        <input
+          type="text"
+          value={selectedRule().redirect.addParamsInput}
+          onInput={(event) =>
+            updateRedirect({ addParamsInput: event.currentTarget.value })
+          }
+          placeholder="Add or replace params: debug=1&lang=en"
+          class={redirectInputClass}
+        />
+        <input
+          type="text"
+          value={selectedRule().redirect.removeParamsInput}
+          onInput={(event) =>
+            updateRedirect({ removeParamsInput: event.currentTarget.value })
+          }
+          placeholder="Remove params: utm_source, utm_medium"
+          class={redirectInputClass}
+        />
+      </Show>
+      <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+        {selectedRule().redirect.mode === "regex"
+          ? "Use \\1 to \\9 for groups captured by the Regex scope entries."
+          : "Empty fields keep that part of the original URL."}
+      </p>
+    </section>
+  );
+
+  const renderHeaderSection = (target: HeaderTarget, title: string) => (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+            <polyline points="14 2 14 8 20 8" />
+            <line x1="16" x2="8" y1="13" y2="13" />
+            <line x1="16" x2="8" y1="17" y2="17" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            {title}
+          </h2>
+        </div>
+        <button
+          onClick={() => addHeader(target)}
+          class="inline-flex items-center justify-center gap-1 rounded-lg border border-dashed border-muted-foreground/25 px-2 py-1 text-[10px] font-bold text-muted-foreground hover:text-primary hover:border-primary/50 hover:bg-primary/4 transition-all"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="11"
+            height="11"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+          >
+            <path d="M5 12h14" />
+            <path d="M12 5v14" />
+          </svg>
+          Add
+        </button>
+      </div>
+      <For each={headers(target)}>
+        {(header, index) => (
+          <div class="grid grid-cols-[20px_1fr_28px_28px] gap-1 items-center animate-slide-up">
+            <span class="text-[9px] font-bold text-muted-foreground/50 text-center select-none">
+              {String(index() + 1).padStart(2, "0")}
+            </span>
+            <div class="flex gap-1.5 p-1.5 rounded-xl border border-border/70 bg-muted/4 input-glow transition-all min-w-0">
+              <div class="flex items-center gap-1.5 min-w-0 flex-1">
+                <select
+                  onChange={(event) =>
+                    updateHeaderOperation(
+                      target,
+                      index(),
+                      event.currentTarget.value as HeaderOperation,
+                    )
+                  }
+                  class="shrink-0 rounded-md bg-muted/40 px-1 py-0.5 text-[10px] font-bold text-muted-foreground focus:outline-none custom-focus"
+                  title="Operation"
+                >
+                  <For each={HEADER_OPERATIONS}>
+                    {(operation) => (
+                      <option
+                        value={operation}
+                        selected={operation === header.operation}
+                      >
+                        {operation}
+                      </option>
+                    )}
+                  </For>
+                </select>
+                <input
+                  type="text"
+                  value={header.key}
+                  onInput={(event) =>
+                    updateHeader(
+                      target,
+                      index(),
+                      "key",
+                      event.currentTarget.value,
+                    )
+                  }
+                  placeholder="Key"
+                  class="w-1/2 bg-transparent text-[12px] font-semibold focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1"
+                />
+                <div class="w-px h-4 bg-border/60 shrink-0"></div>
+                <input
+                  type={
+                    header.secret && !revealedHeaders().has(header)
+                      ? "password"
+                      : "text"
+                  }
+                  value={header.value}
+                  onInput={(event) =>
+                    updateHeader(
+                      target,
+                      index(),
+                      "value",
+                      event.currentTarget.value,
+                    )
+                  }
+                  disabled={header.operation === "remove" || !!header.sealed}
+                  placeholder={
+                    header.operation === "remove"
+                      ? "(removed)"
+                      : header.sealed
+                        ? "Locked"
+                        : "Value"
+                  }
+                  autocomplete="off"
+                  class="w-1/2 bg-transparent text-[12px] focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1 disabled:cursor-not-allowed"
+                />
+                <Show
+                  when={
+                    header.secret &&
+                    !header.sealed &&
+                    header.operation !== "remove"
+                  }
+                >
+                  <button
+                    onClick={() => toggleReveal(header)}
+                    class="shrink-0 inline-flex items-center justify-center rounded-md h-5 w-5 text-muted-foreground/60 hover:text-foreground/80 hover:bg-muted/40 transition-all custom-focus"
+                    title={
+                      revealedHeaders().has(header)
+                        ? "Hide value"
+                        : "Show value"
+                    }
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="11"
+                      height="11"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      stroke-width="2.5"
+                      stroke-linecap="round"
+                      stroke-linejoin="round"
+                    >
+                      <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z" />
+                      <circle cx="12" cy="12" r="3" />
+                      <Show when={revealedHeaders().has(header)}>
+                        <path d="m2 2 20 20" />
+                      </Show>
+                    </svg>
+                  </button>
+                </Show>
+              </div>
+            </div>
+            <button
+              onClick={() => toggleHeaderSecret(target, index())}
+              disabled={!!header.sealed}
+              class="inline-flex items-center justify-center rounded-lg h-7 w-7 transition-all shrink-0 custom-focus disabled:cursor-not-allowed"
+              classList={{
+                "text-amber-600 bg-amber-500/10 hover:bg-amber-500/20":
+                  !!header.secret,
+                "text-muted-foreground/40 hover:text-foreground/70 hover:bg-muted/40":
+                  !header.secret,
+              }}
+              title={
+                header.sealed
+                  ? "Locked secret; unlock to edit"
+                  : header.secret
+                    ? "Secret: masked, left out of exports. Click to unmark"
+                    : "Mark as secret"
+              }
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2.5"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+              >
+                <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+                <path
+                  d={
+                    header.secret
+                      ? "M7 11V7a5 5 0 0 1 10 0v4"
+                      : "M7 11V7a5 5 0 0 1 9.9-1"
+                  }
+                />
+              </svg>
+            </button>
+            <button
+              onClick={() => removeHeader(target, index())}
+              class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-7 w-7 transition-all shrink-0 custom-focus"
+              title="Remove"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2.5"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+              >
+                <path d="M18 6 6 18" />
+                <path d="m6 6 12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+      </For>
+    </section>
+  );
+
   return (
     <div class="relative h-130 w-full bg-linear-to-b from-background via-background to-muted/20 flex flex-col select-none">
       {/* Toast 通知横幅 */}
@@ -713,9 +1640,61 @@ function App() {
                 </p>
               </div>
             </div>
-            <span class="text-[9px] rounded-md px-1.5 py-0.5 bg-primary/8 text-primary font-extrabold tracking-wider border border-primary/20">
-              MV3
-            </span>
+            <div class="flex items-center gap-1.5">
+              <button
+                onClick={() => {
+                  setView("rules");
+                  setHistoryOpen(!historyOpen());
+                }}
+                class="inline-flex items-center justify-center rounded-lg h-6 w-6 hover:text-foreground/80 hover:bg-muted/40 transition-all custom-focus"
+                classList={{
+                  "text-primary": historyOpen(),
+                  "text-muted-foreground/60": !historyOpen(),
+                }}
+                title="Show the history of applied changes"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+                  <path d="M3 3v5h5" />
+                  <path d="M12 7v5l4 2" />
+                </svg>
+              </button>
+              <button
+                onClick={() => void openFullEditor()}
+                class="inline-flex items-center justify-center rounded-lg h-6 w-6 text-muted-foreground/60 hover:text-foreground/80 hover:bg-muted/40 transition-all custom-focus"
+                title="Open the full-page editor"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M15 3h6v6" />
+                  <path d="M9 21H3v-6" />
+                  <path d="M21 3l-7 7" />
+                  <path d="M3 21l7-7" />
+                </svg>
+              </button>
+              <span class="text-[9px] rounded-md px-1.5 py-0.5 bg-primary/8 text-primary font-extrabold tracking-wider border border-primary/20">
+                MV3
+              </span>
+            </div>
           </div>
 
           {/* 状态开关 */}
@@ -751,11 +1730,236 @@ function App() {
               <div class="w-10 h-5.5 bg-muted-foreground/25 rounded-full peer peer-focus-visible:ring-2 peer-focus-visible:ring-ring/30 transition-all peer-checked:bg-primary after:content-[''] after:absolute after:top-[1.5px] after:left-[1.5px] after:bg-white after:rounded-full after:h-4.5 after:w-4.5 after:transition-all after:shadow-sm peer-checked:after:translate-x-4.5"></div>
             </label>
           </div>
+
+          {/* 视图切换 */}
+          <div class="mt-2 segmented-control rounded-xl bg-muted/30 p-1">
+            <div
+              class="slider"
+              style={{
+                left:
+                  view() === "rules" ? "4px" : "calc(4px + (100% - 8px) / 2)",
+                width: "calc((100% - 8px) / 2)",
+              }}
+            />
+            <div class="flex relative">
+              <button
+                onClick={() => setView("rules")}
+                class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors"
+                classList={{
+                  "text-foreground": view() === "rules",
+                  "text-muted-foreground hover:text-foreground/70":
+                    view() !== "rules",
+                }}
+              >
+                Rules
+              </button>
+              <button
+                onClick={() => setView("activity")}
+                class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors"
+                classList={{
+                  "text-foreground": view() === "activity",
+                  "text-muted-foreground hover:text-foreground/70":
+                    view() !== "activity",
+                }}
+              >
+                Activity
+              </button>
+            </div>
+          </div>
         </header>
 
+        <Show when={view() === "activity"}>
+          <main class="flex-1 min-h-0 space-y-2 pr-0.5 overflow-y-auto overscroll-y-contain">
+            {/* URL 测试 */}
+            <UrlTester
+              tabId={activeTabId()}
+              onError={(message) => setStatus(message, "error", 4500)}
+            />
+            <ActivityLog
+              onError={(message) => setStatus(message, "error", 4500)}
+            />
+          </main>
+        </Show>
+
         {/* 可滚动主内容区 */}
-        <main class="flex-1 min-h-0 space-y-2 pr-0.5 overflow-y-auto overscroll-y-contain">
-          {/* Headers 区域 */}
+        <main
+          class="flex-1 min-h-0 space-y-2 pr-0.5 overflow-y-auto overscroll-y-contain"
+          classList={{ hidden: view() !== "rules" }}
+        >
+          {/* Import 区域 */}
+          <Show when={importOpen()}>
+            <ImportPanel
+              onImport={applyImport}
+              onClose={() => setImportOpen(false)}
+            />
+          </Show>
+
+          {/* History 区域 */}
+          <Show when={historyOpen()}>
+            <HistoryPanel
+              busy={saving()}
+              onRestore={(entry) => void restoreSnapshot(entry)}
+              onClose={() => setHistoryOpen(false)}
+              onError={(message) => setStatus(message, "error", 4500)}
+            />
+          </Show>
+
+          {/* Preview 区域 */}
+          <Show when={applyPreview()}>
+            {(preview) => (
+              <ApplyPreviewPanel
+                preview={preview()}
+                busy={saving()}
+                onRefresh={() => void previewApply()}
+                onApply={() => void saveConfig()}
+                onClose={() => setApplyPreview(null)}
+              />
+            )}
+          </Show>
+
+          {/* 当前标签页规则 */}
+          <TabSessionBanner
+            tabId={activeTabId()}
+            onError={(message) => setStatus(message, "error", 4500)}
+          />
+
+          {/* Profiles 区域 */}
+          <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+            <div class="flex items-center justify-between">
+              <div class="flex items-center gap-2">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  class="text-muted-foreground"
+                >
+                  <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+                  <circle cx="9" cy="7" r="4" />
+                  <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+                  <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+                </svg>
+                <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Profiles
+                </h2>
+              </div>
+              <button
+                onClick={createProfile}
+                class="inline-flex items-center justify-center gap-1 rounded-lg border border-dashed border-muted-foreground/25 px-2 py-1 text-[10px] font-bold text-muted-foreground hover:text-primary hover:border-primary/50 hover:bg-primary/4 transition-all"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M5 12h14" />
+                  <path d="M12 5v14" />
+                </svg>
+                New
+              </button>
+            </div>
+            {/* 配置档案标签 */}
+            <div class="flex flex-wrap gap-1.5">
+              <For each={profiles()}>
+                {(profile) => (
+                  <div
+                    class="inline-flex items-center gap-1 rounded-full border pl-1.5 pr-2 py-0.5 transition-all animate-chip-in"
+                    classList={{
+                      "border-primary/40 bg-primary/8":
+                        profile.id === selectedProfile().id,
+                      "border-border/60 bg-muted/30 hover:bg-muted/50":
+                        profile.id !== selectedProfile().id,
+                    }}
+                  >
+                    <button
+                      onClick={() => toggleProfileActive(profile.id)}
+                      class="h-3.5 w-3.5 inline-flex items-center justify-center rounded-full custom-focus"
+                      title={
+                        isProfileActive(profile.id)
+                          ? "Deactivate profile"
+                          : "Activate profile"
+                      }
+                    >
+                      <span
+                        class="h-2 w-2 rounded-full"
+                        classList={{
+                          "bg-emerald-500": isProfileActive(profile.id),
+                          "bg-slate-300": !isProfileActive(profile.id),
+                        }}
+                      />
+                    </button>
+                    <button
+                      onClick={() => setSelectedProfileId(profile.id)}
+                      onDblClick={() => void switchToProfile(profile.id)}
+                      class="max-w-28 truncate text-[10px] font-semibold text-foreground/80"
+                      title="Click to edit, double-click to use only this profile"
+                    >
+                      {profile.name.trim() || "Untitled"}
+                    </button>
+                  </div>
+                )}
+              </For>
+            </div>
+            <div class="flex items-center gap-1.5">
+              <input
+                type="text"
+                value={selectedProfile().name}
+                onInput={(event) => renameProfile(event.currentTarget.value)}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                placeholder="Profile name"
+                class="flex-1 min-w-0 rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] font-semibold focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+              />
+              <button
+                onClick={() => void switchToProfile(selectedProfile().id)}
+                class="h-7 rounded-lg px-2 text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus"
+                title="Make this the only active profile and apply"
+              >
+                Use
+              </button>
+              <button
+                onClick={duplicateProfile}
+                class="h-7 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+                title="Duplicate profile"
+              >
+                Copy
+              </button>
+              <button
+                onClick={deleteProfile}
+                class="h-7 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:text-destructive hover:bg-destructive/10 border border-border/50 transition-all custom-focus"
+                title="Delete profile"
+              >
+                Delete
+              </button>
+            </div>
+            <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+              Green dot = active. Several profiles can be active at once.
+            </p>
+          </section>
+
+          {/* Subscriptions 区域 */}
+          <SubscriptionsPanel
+            onError={(message) => setStatus(message, "error", 4500)}
+          />
+
+          {/* Secrets 区域 */}
+          <SecretsPanel
+            secretCount={secretCount()}
+            onChange={(change) => void handleSecretsChange(change)}
+            onError={(message) => setStatus(message, "error", 4500)}
+          />
+
+          {/* Variables 区域 */}
           <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
             <div class="flex items-center justify-between">
               <div class="flex items-center gap-2">
@@ -771,125 +1975,371 @@ function App() {
                   stroke-linejoin="round"
                   class="text-muted-foreground"
                 >
-                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
-                  <polyline points="14 2 14 8 20 8" />
-                  <line x1="16" x2="8" y1="13" y2="13" />
-                  <line x1="16" x2="8" y1="17" y2="17" />
+                  <path d="M8 3H7a2 2 0 0 0-2 2v5a2 2 0 0 1-2 2 2 2 0 0 1 2 2v5a2 2 0 0 0 2 2h1" />
+                  <path d="M16 21h1a2 2 0 0 0 2-2v-5a2 2 0 0 1 2-2 2 2 0 0 1-2-2V5a2 2 0 0 0-2-2h-1" />
                 </svg>
                 <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
-                  Headers
+                  Variables
                 </h2>
               </div>
               <button
-                onClick={addHeader}
+                onClick={addVariable}
                 class="inline-flex items-center justify-center gap-1 rounded-lg border border-dashed border-muted-foreground/25 px-2 py-1 text-[10px] font-bold text-muted-foreground hover:text-primary hover:border-primary/50 hover:bg-primary/4 transition-all"
               >
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
-                  width="11"
-                  height="11"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M5 12h14" />
+                  <path d="M12 5v14" />
+                </svg>
+                Add
+              </button>
+            </div>
+            <div class="segmented-control rounded-xl bg-muted/30 p-1">
+              <div
+                class="slider"
+                style={{
+                  left:
+                    variableScope() === "global"
+                      ? "4px"
+                      : "calc(4px + (100% - 8px) / 2)",
+                  width: "calc((100% - 8px) / 2)",
+                }}
+              />
+              <div class="flex relative">
+                <button
+                  onClick={() => setVariableScope("global")}
+                  class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors"
+                  classList={{
+                    "text-foreground": variableScope() === "global",
+                    "text-muted-foreground hover:text-foreground/70":
+                      variableScope() !== "global",
+                  }}
+                >
+                  Global
+                </button>
+                <button
+                  onClick={() => setVariableScope("profile")}
+                  class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors truncate px-1"
+                  classList={{
+                    "text-foreground": variableScope() === "profile",
+                    "text-muted-foreground hover:text-foreground/70":
+                      variableScope() !== "profile",
+                  }}
+                >
+                  {selectedProfile().name.trim() || "Untitled"}
+                </button>
+              </div>
+            </div>
+            <For each={scopedVariables()}>
+              {(variable, index) => (
+                <div class="grid grid-cols-[1fr_28px] gap-1.5 items-center animate-slide-up">
+                  <div class="flex items-center gap-1.5 p-1.5 rounded-xl border border-border/70 bg-muted/4 input-glow transition-all min-w-0">
+                    <input
+                      type="text"
+                      value={variable.name}
+                      onInput={(event) =>
+                        updateVariable(
+                          index(),
+                          "name",
+                          event.currentTarget.value,
+                        )
+                      }
+                      placeholder="NAME"
+                      class="w-2/5 bg-transparent font-mono text-[11px] font-semibold focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1"
+                    />
+                    <div class="w-px h-4 bg-border/60 shrink-0"></div>
+                    <input
+                      type="text"
+                      value={variable.value}
+                      onInput={(event) =>
+                        updateVariable(
+                          index(),
+                          "value",
+                          event.currentTarget.value,
+                        )
+                      }
+                      placeholder="Value"
+                      class="flex-1 bg-transparent text-[12px] focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1"
+                    />
+                  </div>
+                  <button
+                    onClick={() => removeVariable(index())}
+                    class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-7 w-7 transition-all shrink-0 custom-focus"
+                    title="Remove"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="12"
+                      height="12"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      stroke-width="2.5"
+                      stroke-linecap="round"
+                      stroke-linejoin="round"
+                    >
+                      <path d="M18 6 6 18" />
+                      <path d="m6 6 12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+            </For>
+            <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+              Use <code class="font-mono">{"{{var:NAME}}"}</code> in header
+              values; profile variables override global ones. Generators{" "}
+              <code class="font-mono">{"{{uuid}}"}</code>,{" "}
+              <code class="font-mono">{"{{now}}"}</code> and{" "}
+              <code class="font-mono">{"{{now:iso}}"}</code> are refreshed every
+              minute.
+            </p>
+          </section>
+
+          {/* Rules 区域 */}
+          <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+            <div class="flex items-center justify-between">
+              <div class="flex items-center gap-2">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  class="text-muted-foreground"
+                >
+                  <line x1="8" x2="21" y1="6" y2="6" />
+                  <line x1="8" x2="21" y1="12" y2="12" />
+                  <line x1="8" x2="21" y1="18" y2="18" />
+                  <line x1="3" x2="3.01" y1="6" y2="6" />
+                  <line x1="3" x2="3.01" y1="12" y2="12" />
+                  <line x1="3" x2="3.01" y1="18" y2="18" />
+                </svg>
+                <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Rules
+                </h2>
+              </div>
+              <button
+                onClick={addRule}
+                class="inline-flex items-center justify-center gap-1 rounded-lg border border-dashed border-muted-foreground/25 px-2 py-1 text-[10px] font-bold text-muted-foreground hover:text-primary hover:border-primary/50 hover:bg-primary/4 transition-all"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M5 12h14" />
+                  <path d="M12 5v14" />
+                </svg>
+                Add
+              </button>
+            </div>
+            <div class="space-y-1">
+              <For each={selectedProfile().rules}>
+                {(rule) => (
+                  <div
+                    class="flex items-center gap-2 rounded-xl border px-2 py-1.5 transition-all"
+                    classList={{
+                      "border-primary/40 bg-primary/6":
+                        rule.id === selectedRule().id,
+                      "border-border/60 bg-muted/4 hover:bg-muted/20":
+                        rule.id !== selectedRule().id,
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(event) =>
+                        updateRule(rule.id, {
+                          enabled: event.currentTarget.checked,
+                        })
+                      }
+                      class="h-3 w-3 shrink-0 accent-primary"
+                      title={rule.enabled ? "Disable rule" : "Enable rule"}
+                    />
+                    <button
+                      onClick={() => setSelectedRuleId(rule.id)}
+                      class="flex-1 min-w-0 text-left"
+                    >
+                      <span
+                        class="block truncate text-[11px] font-semibold"
+                        classList={{
+                          "text-foreground/80": rule.enabled,
+                          "text-muted-foreground/60 line-through":
+                            !rule.enabled,
+                        }}
+                      >
+                        {rule.name.trim() || "Untitled"}
+                      </span>
+                      <span class="block truncate text-[9px] text-muted-foreground/70">
+                        {describeRule(rule)}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule.id)}
+                      class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-6 w-6 transition-all shrink-0 custom-focus"
+                      title="Delete rule"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="11"
+                        height="11"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        stroke-width="2.5"
+                        stroke-linecap="round"
+                        stroke-linejoin="round"
+                      >
+                        <path d="M18 6 6 18" />
+                        <path d="m6 6 12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                )}
+              </For>
+            </div>
+            <div class="flex items-center gap-1.5">
+              <input
+                type="text"
+                value={selectedRule().name}
+                onInput={(event) =>
+                  updateSelectedRule({ name: event.currentTarget.value })
+                }
+                placeholder="Rule name"
+                class="flex-1 min-w-0 rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] font-semibold focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+              />
+              <button
+                onClick={duplicateRule}
+                class="h-7 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+                title="Duplicate rule"
+              >
+                Copy
+              </button>
+            </div>
+            <div class="segmented-control rounded-xl bg-muted/30 p-1">
+              <div
+                class="slider"
+                style={segmentStyle(
+                  RULE_KINDS.findIndex(
+                    (item) => item.kind === selectedRule().kind,
+                  ),
+                  RULE_KINDS.length,
+                )}
+              />
+              <div class="flex relative">
+                <For each={RULE_KINDS}>
+                  {(item) => (
+                    <button
+                      onClick={() => updateSelectedRule({ kind: item.kind })}
+                      class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-colors"
+                      classList={{
+                        "text-foreground": selectedRule().kind === item.kind,
+                        "text-muted-foreground hover:text-foreground/70":
+                          selectedRule().kind !== item.kind,
+                      }}
+                    >
+                      {item.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+            <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+              {selectedRule().kind === "block"
+                ? "Requests in the scope below fail as if the server were unreachable."
+                : "The sections below edit the selected rule."}
+            </p>
+          </section>
+
+          <Show when={selectedRule().kind === "headers"}>
+            {/* Headers 区域 */}
+            {renderHeaderSection("request", "Request Headers")}
+
+            {/* Response Headers 区域 */}
+            {renderHeaderSection("response", "Response Headers")}
+          </Show>
+
+          {/* Redirect 区域 */}
+          <Show when={selectedRule().kind === "redirect"}>
+            {renderRedirectSection()}
+          </Show>
+
+          {/* Scope 区域 */}
+          <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+            <div class="flex items-center justify-between">
+              <div class="flex items-center gap-2">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
                   viewBox="0 0 24 24"
                   fill="none"
                   stroke="currentColor"
                   stroke-width="2.5"
                   stroke-linecap="round"
                   stroke-linejoin="round"
+                  class="text-muted-foreground"
                 >
-                  <path d="M5 12h14" />
-                  <path d="M12 5v14" />
+                  <circle cx="12" cy="12" r="10" />
+                  <line x1="2" x2="22" y1="12" y2="12" />
+                  <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
                 </svg>
-                Add
-              </button>
+                <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Scope
+                </h2>
+              </div>
+              <Show when={siteChoices().length > 0}>
+                <button
+                  onClick={() => setSiteChoicesOpen(!siteChoicesOpen())}
+                  class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+                  title="Apply headers to this site"
+                >
+                  This Site
+                </button>
+              </Show>
             </div>
-            <For each={headers()}>
-              {(header, index) => (
-                <div class="grid grid-cols-[20px_1fr_28px] gap-1.5 items-center animate-slide-up">
-                  <span class="text-[9px] font-bold text-muted-foreground/50 text-center select-none">
-                    {String(index() + 1).padStart(2, "0")}
-                  </span>
-                  <div class="flex gap-1.5 p-1.5 rounded-xl border border-border/70 bg-muted/4 input-glow transition-all min-w-0">
-                    <div class="flex items-center gap-1.5 min-w-0 flex-1">
-                      <input
-                        type="text"
-                        value={header.key}
-                        onInput={(event) =>
-                          updateHeader(
-                            index(),
-                            "key",
-                            event.currentTarget.value,
-                          )
-                        }
-                        placeholder="Key"
-                        class="w-1/2 bg-transparent text-[12px] font-semibold focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1"
-                      />
-                      <div class="w-px h-4 bg-border/60 shrink-0"></div>
-                      <input
-                        type="text"
-                        value={header.value}
-                        onInput={(event) =>
-                          updateHeader(
-                            index(),
-                            "value",
-                            event.currentTarget.value,
-                          )
-                        }
-                        placeholder="Value"
-                        class="w-1/2 bg-transparent text-[12px] focus:outline-none placeholder:text-muted-foreground/40 min-w-0 px-1"
-                      />
-                    </div>
-                  </div>
-                  <button
-                    onClick={() => removeHeader(index())}
-                    class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-7 w-7 transition-all shrink-0 custom-focus"
-                    title="Remove"
-                  >
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="12"
-                      height="12"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      stroke-width="2.5"
-                      stroke-linecap="round"
-                      stroke-linejoin="round"
+            <Show when={siteChoicesOpen()}>
+              <div class="grid grid-cols-3 gap-1.5 animate-fade-in">
+                <For each={siteChoices()}>
+                  {(choice) => (
+                    <button
+                      onClick={() => void applyToSite(choice)}
+                      class="h-7 min-w-0 truncate rounded-lg px-1.5 text-[10px] font-bold bg-primary/10 text-primary hover:bg-primary/15 border border-primary/20 transition-all custom-focus"
+                      title={`${SITE_SCOPE_LABELS[choice.scope]}: add and apply`}
                     >
-                      <path d="M18 6 6 18" />
-                      <path d="m6 6 12 12" />
-                    </svg>
-                  </button>
-                </div>
-              )}
-            </For>
-          </section>
-
-          {/* Scope 区域 */}
-          <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
-            <div class="flex items-center gap-2">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="12"
-                height="12"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                stroke-width="2.5"
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                class="text-muted-foreground"
-              >
-                <circle cx="12" cy="12" r="10" />
-                <line x1="2" x2="22" y1="12" y2="12" />
-                <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
-              </svg>
-              <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
-                Scope
-              </h2>
-            </div>
+                      {choice.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </Show>
             <textarea
               value={domainInput()}
               onInput={(event) => setDomainInput(event.currentTarget.value)}
-              placeholder="example.com&#10;api.example.com&#10;localhost"
+              placeholder={
+                domainMatchMode() === "regex"
+                  ? "^https://api\\.example\\.com/v[0-9]+/"
+                  : "example.com\napi.example.com/v2/*\nlocalhost"
+              }
               rows={3}
               class="w-full rounded-xl border border-border/70 bg-muted/4 focus:bg-muted/6 transition-all px-3 py-2 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 resize-none custom-focus"
             />
@@ -919,23 +2369,49 @@ function App() {
               >
                 <For each={parsedDomains().slice(0, 8)}>
                   {(domain) => (
-                    <span class="inline-flex items-center gap-1 rounded-full bg-muted/60 px-2 py-0.5 text-[10px] font-semibold text-foreground/80 animate-chip-in">
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        width="8"
-                        height="8"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        stroke-width="3"
-                        stroke-linecap="round"
-                        stroke-linejoin="round"
-                        class="text-primary/60"
+                    <Show
+                      when={isExclusion(domain)}
+                      fallback={
+                        <span class="inline-flex items-center gap-1 rounded-full bg-muted/60 px-2 py-0.5 text-[10px] font-semibold text-foreground/80 animate-chip-in">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="8"
+                            height="8"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            stroke-width="3"
+                            stroke-linecap="round"
+                            stroke-linejoin="round"
+                            class="text-primary/60"
+                          >
+                            <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
+                          </svg>
+                          {domain}
+                        </span>
+                      }
+                    >
+                      <span
+                        class="inline-flex items-center gap-1 rounded-full border border-dashed border-destructive/40 bg-destructive/5 px-2 py-0.5 text-[10px] font-semibold text-destructive/80 line-through decoration-destructive/40 animate-chip-in"
+                        title="Excluded from the scope"
                       >
-                        <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
-                      </svg>
-                      {domain}
-                    </span>
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          width="8"
+                          height="8"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          stroke-width="3"
+                          stroke-linecap="round"
+                          stroke-linejoin="round"
+                        >
+                          <circle cx="12" cy="12" r="10" />
+                          <path d="M8 12h8" />
+                        </svg>
+                        {domain.slice(EXCLUSION_PREFIX.length)}
+                      </span>
+                    </Show>
                   )}
                 </For>
                 <Show when={parsedDomains().length > 8}>
@@ -989,11 +2465,172 @@ function App() {
                 >
                   Sub Only
                 </button>
+                <button
+                  onClick={() => setDomainMatchMode("regex")}
+                  class="flex-1 h-7 rounded-lg text-[10px] font-bold transition-colors"
+                  classList={{
+                    "text-foreground": domainMatchMode() === "regex",
+                    "text-muted-foreground hover:text-foreground/70":
+                      domainMatchMode() !== "regex",
+                  }}
+                >
+                  Regex
+                </button>
               </div>
             </div>
             <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
-              One per line or comma. &quot;Sub Only&quot; excludes root host.
+              <Show
+                when={domainMatchMode() === "regex"}
+                fallback={
+                  <>
+                    One per line or comma. Add a path like example.com/api/* to
+                    narrow (* is the wildcard). &quot;Sub Only&quot; excludes
+                    root host. Prefix ! to exclude a host or a path such as
+                    !/health.
+                  </>
+                }
+              >
+                One RE2 regex per line, matched against the full URL. Prefix !
+                to exclude matching URLs.
+              </Show>
             </p>
+            {/* 请求过滤 */}
+            <details class="group rounded-xl border border-border/60 bg-muted/4">
+              <summary class="flex items-center justify-between cursor-pointer list-none px-3 py-2 text-[10px] font-bold text-muted-foreground">
+                <span class="uppercase tracking-wider">Request Filters</span>
+                <span class="font-semibold normal-case text-muted-foreground/70 truncate ml-2">
+                  {describeFilters(selectedRule())}
+                </span>
+              </summary>
+              <div class="px-3 pb-3 space-y-2">
+                <div class="flex gap-1.5">
+                  <For each={REQUEST_FILTER_PRESETS}>
+                    {(preset) => (
+                      <button
+                        onClick={() =>
+                          updateSelectedRule({ ...preset.filters })
+                        }
+                        class="flex-1 h-6 rounded-lg text-[10px] font-bold transition-all"
+                        classList={{
+                          "bg-primary text-primary-foreground shadow-sm shadow-primary/20":
+                            isFilterPresetActive(preset.filters),
+                          "bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50":
+                            !isFilterPresetActive(preset.filters),
+                        }}
+                      >
+                        {preset.label}
+                      </button>
+                    )}
+                  </For>
+                </div>
+                <div class="flex items-center justify-between">
+                  <span class="text-[10px] font-bold text-muted-foreground">
+                    Resource types
+                  </span>
+                  <button
+                    onClick={() =>
+                      updateSelectedRule({
+                        resourceTypeMode:
+                          selectedRule().resourceTypeMode === "include"
+                            ? "exclude"
+                            : "include",
+                      })
+                    }
+                    class="rounded-md bg-muted/40 px-1.5 py-0.5 text-[9px] font-bold text-muted-foreground hover:text-foreground/80 transition-all custom-focus"
+                    title="Switch between matching and excluding the selected types"
+                  >
+                    {selectedRule().resourceTypeMode === "include"
+                      ? "Only selected"
+                      : "All except selected"}
+                  </button>
+                </div>
+                <div class="flex flex-wrap gap-1">
+                  <For each={RESOURCE_TYPES}>
+                    {(type) => (
+                      <button
+                        onClick={() => toggleResourceType(type)}
+                        class="rounded-full px-2 py-0.5 text-[9px] font-semibold transition-all"
+                        classList={{
+                          "bg-primary/10 text-primary border border-primary/30":
+                            selectedRule().resourceTypes.includes(type),
+                          "bg-muted/40 text-muted-foreground border border-transparent hover:text-foreground/80":
+                            !selectedRule().resourceTypes.includes(type),
+                        }}
+                      >
+                        {type}
+                      </button>
+                    )}
+                  </For>
+                </div>
+                <span class="block text-[10px] font-bold text-muted-foreground">
+                  Methods
+                </span>
+                <div class="flex flex-wrap gap-1">
+                  <For each={REQUEST_METHODS}>
+                    {(method) => (
+                      <button
+                        onClick={() => toggleRequestMethod(method)}
+                        class="rounded-full px-2 py-0.5 text-[9px] font-semibold uppercase transition-all"
+                        classList={{
+                          "bg-primary/10 text-primary border border-primary/30":
+                            selectedRule().requestMethods.includes(method),
+                          "bg-muted/40 text-muted-foreground border border-transparent hover:text-foreground/80":
+                            !selectedRule().requestMethods.includes(method),
+                        }}
+                      >
+                        {method}
+                      </button>
+                    )}
+                  </For>
+                </div>
+                <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+                  Nothing selected = all types / all methods.
+                </p>
+              </div>
+            </details>
+            {/* 发起方过滤 */}
+            <details class="group rounded-xl border border-border/60 bg-muted/4">
+              <summary class="flex items-center justify-between cursor-pointer list-none px-3 py-2 text-[10px] font-bold text-muted-foreground">
+                <span class="uppercase tracking-wider">Initiators</span>
+                <span class="font-semibold normal-case text-muted-foreground/70 truncate ml-2">
+                  {describeInitiators(selectedRule())}
+                </span>
+              </summary>
+              <div class="px-3 pb-3 space-y-2">
+                <span class="block text-[10px] font-bold text-muted-foreground">
+                  Only from
+                </span>
+                <input
+                  type="text"
+                  value={selectedRule().initiatorInput}
+                  onInput={(event) =>
+                    updateSelectedRule({
+                      initiatorInput: event.currentTarget.value,
+                    })
+                  }
+                  placeholder="app.example.com"
+                  class="w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+                />
+                <span class="block text-[10px] font-bold text-muted-foreground">
+                  Never from
+                </span>
+                <input
+                  type="text"
+                  value={selectedRule().excludedInitiatorInput}
+                  onInput={(event) =>
+                    updateSelectedRule({
+                      excludedInitiatorInput: event.currentTarget.value,
+                    })
+                  }
+                  placeholder="partner.com, ads.example.net"
+                  class="w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+                />
+                <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+                  Matches the site that started the request, including its
+                  subdomains. Empty = any site.
+                </p>
+              </div>
+            </details>
           </section>
 
           {/* Duration 区域 */}
@@ -1068,10 +2705,150 @@ function App() {
               0 = always on &middot; Max 1440 min (24h)
             </p>
           </section>
+
+          {/* Schedule 区域 */}
+          <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+            <div class="flex items-center justify-between">
+              <div class="flex items-center gap-2">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  class="text-muted-foreground"
+                >
+                  <rect width="18" height="18" x="3" y="4" rx="2" />
+                  <line x1="16" x2="16" y1="2" y2="6" />
+                  <line x1="8" x2="8" y1="2" y2="6" />
+                  <line x1="3" x2="21" y1="10" y2="10" />
+                </svg>
+                <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Schedule
+                </h2>
+              </div>
+              <button
+                onClick={addScheduleWindow}
+                class="inline-flex items-center justify-center gap-1 rounded-lg border border-dashed border-muted-foreground/25 px-2 py-1 text-[10px] font-bold text-muted-foreground hover:text-primary hover:border-primary/50 hover:bg-primary/4 transition-all"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M5 12h14" />
+                  <path d="M12 5v14" />
+                </svg>
+                Window
+              </button>
+            </div>
+            <For each={scheduleWindows()}>
+              {(window, index) => (
+                <div class="rounded-xl border border-border/60 bg-muted/4 p-2 space-y-1.5 animate-slide-up">
+                  <div class="flex gap-1">
+                    <For each={WEEKDAY_ORDER}>
+                      {(day) => (
+                        <button
+                          onClick={() => toggleScheduleDay(index(), day)}
+                          class="flex-1 h-6 rounded-md text-[9px] font-bold transition-all"
+                          classList={{
+                            "bg-primary/10 text-primary border border-primary/30":
+                              window.days.includes(day),
+                            "bg-muted/40 text-muted-foreground border border-transparent hover:text-foreground/80":
+                              !window.days.includes(day),
+                          }}
+                        >
+                          {WEEKDAY_LABELS[day]}
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                  <div class="flex items-center gap-1.5">
+                    <input
+                      type="time"
+                      value={window.start}
+                      onInput={(event) =>
+                        updateScheduleWindow(index(), {
+                          start: event.currentTarget.value,
+                        })
+                      }
+                      class="flex-1 min-w-0 rounded-lg border border-border/70 bg-muted/4 px-2 py-1 text-[11px] font-semibold focus:outline-none custom-focus"
+                    />
+                    <span class="text-[10px] text-muted-foreground/60">to</span>
+                    <input
+                      type="time"
+                      value={window.end}
+                      onInput={(event) =>
+                        updateScheduleWindow(index(), {
+                          end: event.currentTarget.value,
+                        })
+                      }
+                      class="flex-1 min-w-0 rounded-lg border border-border/70 bg-muted/4 px-2 py-1 text-[11px] font-semibold focus:outline-none custom-focus"
+                    />
+                    <button
+                      onClick={() => removeScheduleWindow(index())}
+                      class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-6 w-6 transition-all shrink-0 custom-focus"
+                      title="Remove window"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="11"
+                        height="11"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        stroke-width="2.5"
+                        stroke-linecap="round"
+                        stroke-linejoin="round"
+                      >
+                        <path d="M18 6 6 18" />
+                        <path d="m6 6 12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </For>
+            <div class="grid grid-cols-[52px_1fr] items-center gap-1.5">
+              <span class="text-[10px] font-bold text-muted-foreground">
+                Starts
+              </span>
+              <input
+                type="datetime-local"
+                value={startsAtInput()}
+                onInput={(event) => setStartsAtInput(event.currentTarget.value)}
+                class="w-full rounded-lg border border-border/70 bg-muted/4 px-2 py-1 text-[11px] font-semibold focus:outline-none custom-focus"
+              />
+              <span class="text-[10px] font-bold text-muted-foreground">
+                Expires
+              </span>
+              <input
+                type="datetime-local"
+                value={expiresAtInput()}
+                onInput={(event) =>
+                  setExpiresAtInput(event.currentTarget.value)
+                }
+                class="w-full rounded-lg border border-border/70 bg-muted/4 px-2 py-1 text-[11px] font-semibold focus:outline-none custom-focus"
+              />
+            </div>
+            <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+              {scheduleStatus()}
+            </p>
+          </section>
         </main>
 
         {/* Footer 操作区 */}
-        <footer class="shrink-0">
+        <footer class="shrink-0" classList={{ hidden: view() !== "rules" }}>
           <div class="rounded-2xl border border-border/80 bg-card shadow-card px-3 py-2.5 space-y-2.5">
             <div class="flex items-center gap-2">
               <svg
@@ -1092,9 +2869,37 @@ function App() {
                 Actions
               </h2>
             </div>
-            <div class="grid grid-cols-2 gap-2">
+            <Show when={exportChoiceOpen()}>
+              <div class="rounded-xl border border-amber-500/30 bg-amber-500/5 px-2.5 py-2 space-y-1.5 animate-fade-in">
+                <p class="text-[10px] font-semibold text-amber-600">
+                  {secretCount()} secret header value
+                  {secretCount() === 1 ? "" : "s"}. Include them in the exported
+                  file?
+                </p>
+                <div class="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => exportConfig(false)}
+                    class="h-7 rounded-lg text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus"
+                  >
+                    Leave Out
+                  </button>
+                  <button
+                    onClick={() => exportConfig(true)}
+                    class="h-7 rounded-lg text-[10px] font-bold text-destructive hover:bg-destructive/10 border border-destructive/30 transition-all custom-focus"
+                    title="Locked secrets are left out either way"
+                  >
+                    Include in Clear Text
+                  </button>
+                </div>
+              </div>
+            </Show>
+            <div class="grid grid-cols-3 gap-2">
               <button
-                onClick={exportConfig}
+                onClick={() =>
+                  secretCount() > 0
+                    ? setExportChoiceOpen(!exportChoiceOpen())
+                    : exportConfig(false)
+                }
                 class="inline-flex items-center justify-center gap-1.5 rounded-xl border border-border/60 h-8 text-[10px] font-bold text-muted-foreground hover:text-foreground hover:bg-muted/30 hover:border-border transition-all custom-focus"
               >
                 <svg
@@ -1115,7 +2920,7 @@ function App() {
                 Export
               </button>
               <button
-                onClick={() => importFileInput?.click()}
+                onClick={() => setImportOpen(!importOpen())}
                 class="inline-flex items-center justify-center gap-1.5 rounded-xl border border-border/60 h-8 text-[10px] font-bold text-muted-foreground hover:text-foreground hover:bg-muted/30 hover:border-border transition-all custom-focus"
               >
                 <svg
@@ -1135,35 +2940,75 @@ function App() {
                 </svg>
                 Import
               </button>
+              <button
+                onClick={() => void applyToCurrentTab()}
+                disabled={activeTabId() === null}
+                class="inline-flex items-center justify-center gap-1.5 rounded-xl border border-amber-500/40 h-8 text-[10px] font-bold text-amber-600 hover:bg-amber-500/10 hover:border-amber-500/60 transition-all custom-focus disabled:opacity-50"
+                title="Apply the active profiles to this tab only, without saving"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <rect width="18" height="18" x="3" y="3" rx="2" />
+                  <path d="M3 9h18" />
+                </svg>
+                This Tab
+              </button>
             </div>
-            <button
-              onClick={saveConfig}
-              class="btn-primary-gradient w-full inline-flex items-center justify-center gap-2 rounded-xl text-primary-foreground text-[12px] font-extrabold shadow-button-primary h-9.5 active:scale-[0.98] custom-focus"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="14"
-                height="14"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                stroke-width="2.5"
-                stroke-linecap="round"
-                stroke-linejoin="round"
+            <div class="flex items-center gap-2">
+              <button
+                onClick={() => void previewApply()}
+                disabled={saving()}
+                class="inline-flex items-center justify-center gap-1.5 rounded-xl border border-border/60 h-9.5 px-3 text-[10px] font-bold text-muted-foreground hover:text-foreground hover:bg-muted/30 hover:border-border transition-all custom-focus disabled:opacity-50"
+                title="Review the compiled rules and limits before applying"
               >
-                <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
-                <polyline points="17 21 17 13 7 13 7 21" />
-                <polyline points="7 3 7 8 15 8" />
-              </svg>
-              Save &amp; Apply
-            </button>
-            <input
-              ref={importFileInput}
-              type="file"
-              accept="application/json"
-              class="hidden"
-              onChange={importConfig}
-            />
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="11"
+                  height="11"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z" />
+                  <circle cx="12" cy="12" r="3" />
+                </svg>
+                Preview
+              </button>
+              <button
+                onClick={() => void saveConfig()}
+                disabled={saving()}
+                class="btn-primary-gradient flex-1 inline-flex items-center justify-center gap-2 rounded-xl text-primary-foreground text-[12px] font-extrabold shadow-button-primary h-9.5 active:scale-[0.98] custom-focus disabled:opacity-70"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2.5"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+                  <polyline points="17 21 17 13 7 13 7 21" />
+                  <polyline points="7 3 7 8 15 8" />
+                </svg>
+                Save &amp; Apply
+              </button>
+            </div>
           </div>
         </footer>
       </div>
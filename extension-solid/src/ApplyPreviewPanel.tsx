@@ -0,0 +1,223 @@
+import { createSignal, onMount, For, Show } from "solid-js";
+import type { ApplyPreview, RuleChange } from "./lib/preview.ts";
+
+// Rendering thousands of rule bodies would stall the popup.
+const MAX_SHOWN_RULES = 100;
+
+const CHANGE_LABELS: Record<RuleChange, string> = {
+  added: "ADD",
+  changed: "CHG",
+  unchanged: "SAME",
+};
+
+/**
+ * Shows the DNR rules Save & Apply will install, how they differ from the
+ * installed ones and how close they are to Chrome's limits. Applying is
+ * blocked while the compiled rules would be rejected.
+ */
+function ApplyPreviewPanel(props: {
+  preview: ApplyPreview;
+  busy: boolean;
+  onRefresh: () => void;
+  onApply: () => void;
+  onClose: () => void;
+}) {
+  const [changesOnly, setChangesOnly] = createSignal(false);
+  let section: HTMLElement | undefined;
+
+  // The panel opens from the footer, usually below the fold.
+  onMount(() => section?.scrollIntoView({ behavior: "smooth" }));
+
+  const count = (change: RuleChange) =>
+    props.preview.rules.filter((entry) => entry.change === change).length;
+  const shownRules = () =>
+    props.preview.rules.filter(
+      (entry) => !changesOnly() || entry.change !== "unchanged",
+    );
+
+  return (
+    <section
+      ref={section}
+      class="rounded-2xl border border-primary/30 bg-card shadow-card p-3 space-y-2.5 animate-fade-in"
+    >
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z" />
+            <circle cx="12" cy="12" r="3" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            Apply Preview
+          </h2>
+        </div>
+        <div class="flex items-center gap-1.5">
+          <button
+            onClick={() => props.onRefresh()}
+            disabled={props.busy}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus disabled:opacity-50"
+            title="Compile the current edits again"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => props.onClose()}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <p class="text-[10px] font-semibold text-muted-foreground">
+        <span class="text-emerald-600">+{count("added")} added</span>
+        {" · "}
+        <span class="text-amber-600">~{count("changed")} changed</span>
+        {" · "}
+        <span class="text-destructive">
+          −{props.preview.removed.length} removed
+        </span>
+        {` · ${count("unchanged")} unchanged`}
+      </p>
+      <Show when={props.preview.quotas.length > 0}>
+        <ul class="space-y-1.5">
+          <For each={props.preview.quotas}>
+            {(quota) => (
+              <li class="space-y-0.5">
+                <div class="flex items-center justify-between text-[10px]">
+                  <span class="font-semibold text-foreground/70">
+                    {quota.label}
+                  </span>
+                  <span
+                    class="font-mono"
+                    classList={{
+                      "text-destructive font-bold": quota.used > quota.limit,
+                      "text-muted-foreground": quota.used <= quota.limit,
+                    }}
+                  >
+                    {quota.used} / {quota.limit}
+                  </span>
+                </div>
+                <div class="h-1 rounded-full bg-muted/60 overflow-hidden">
+                  <div
+                    class="h-full rounded-full"
+                    classList={{
+                      "bg-destructive": quota.used > quota.limit,
+                      "bg-primary/60": quota.used <= quota.limit,
+                    }}
+                    style={{
+                      width: `${Math.min(100, (quota.used / quota.limit) * 100)}%`,
+                    }}
+                  />
+                </div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+      <Show when={props.preview.errors.length > 0}>
+        <div class="rounded-xl border border-destructive/30 bg-destructive/5 px-2.5 py-1.5 space-y-1">
+          <p class="text-[10px] font-bold text-destructive">
+            Chrome would reject these rules
+          </p>
+          <ul class="space-y-1 max-h-32 overflow-y-auto">
+            <For each={props.preview.errors}>
+              {(error) => (
+                <li class="text-[10px] leading-snug text-muted-foreground break-words">
+                  {error}
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+      <Show when={props.preview.rules.length > 0}>
+        <label class="flex items-center gap-1.5 text-[10px] font-semibold text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={changesOnly()}
+            onChange={(event) => setChangesOnly(event.currentTarget.checked)}
+          />
+          Changes only
+        </label>
+        <ul class="space-y-1 max-h-64 overflow-y-auto">
+          <For each={shownRules().slice(0, MAX_SHOWN_RULES)}>
+            {(entry) => (
+              <li>
+                <details class="rounded-xl border border-border/60 bg-muted/4">
+                  <summary class="cursor-pointer list-none flex items-center gap-1.5 px-2.5 py-1">
+                    <span
+                      class="text-[9px] rounded-md px-1 py-0.5 font-extrabold tracking-wider border shrink-0"
+                      classList={{
+                        "bg-emerald-500/10 text-emerald-600 border-emerald-500/30":
+                          entry.change === "added",
+                        "bg-amber-500/10 text-amber-600 border-amber-500/30":
+                          entry.change === "changed",
+                        "bg-muted/40 text-muted-foreground border-border/60":
+                          entry.change === "unchanged",
+                      }}
+                    >
+                      {CHANGE_LABELS[entry.change]}
+                    </span>
+                    <span class="font-mono text-[10px] text-muted-foreground shrink-0">
+                      #{entry.rule.id}
+                    </span>
+                    <span class="flex-1 min-w-0 truncate text-[10px] font-semibold text-foreground/70">
+                      {entry.source}
+                    </span>
+                    <span class="text-[10px] text-muted-foreground shrink-0">
+                      {entry.rule.action.type}
+                    </span>
+                  </summary>
+                  <pre class="px-2.5 pb-2 text-[10px] font-mono leading-snug text-foreground/70 whitespace-pre-wrap break-all">
+                    {JSON.stringify(entry.rule, null, 2)}
+                  </pre>
+                </details>
+              </li>
+            )}
+          </For>
+        </ul>
+        <Show when={shownRules().length > MAX_SHOWN_RULES}>
+          <p class="text-[10px] text-muted-foreground">
+            +{shownRules().length - MAX_SHOWN_RULES} more
+          </p>
+        </Show>
+      </Show>
+      <Show when={props.preview.removed.length > 0}>
+        <details class="rounded-xl border border-destructive/30 bg-destructive/5">
+          <summary class="cursor-pointer list-none px-2.5 py-1.5 text-[10px] font-bold text-destructive">
+            {props.preview.removed.length} installed rule
+            {props.preview.removed.length === 1 ? "" : "s"} removed
+          </summary>
+          <ul class="px-2.5 pb-2 space-y-0.5 max-h-32 overflow-y-auto">
+            <For each={props.preview.removed}>
+              {(rule) => (
+                <li class="truncate text-[10px] text-muted-foreground">
+                  <span class="font-mono">#{rule.id}</span> {rule.source}
+                </li>
+              )}
+            </For>
+          </ul>
+        </details>
+      </Show>
+      <button
+        onClick={() => props.onApply()}
+        disabled={props.busy || props.preview.errors.length > 0}
+        class="w-full h-7 rounded-lg text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+      >
+        Save &amp; Apply
+      </button>
+    </section>
+  );
+}
+
+export default ApplyPreviewPanel;
@@ -0,0 +1,119 @@
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { diffLines, type LineChange } from "./lib/diff.ts";
+
+// Rendering thousands of rows would stall the page.
+const MAX_SHOWN_ROWS = 500;
+
+/**
+ * Shows two renderings of a config side by side with changed lines
+ * highlighted; unchanged lines are hidden unless asked for.
+ */
+function ConfigDiff(props: {
+  before: string[];
+  after: string[];
+  beforeLabel: string;
+  afterLabel: string;
+}) {
+  const [changesOnly, setChangesOnly] = createSignal(true);
+
+  // Line numbers are counted before filtering so they match the full text.
+  const rows = createMemo(() => {
+    let leftNumber = 0;
+    let rightNumber = 0;
+    return diffLines(props.before, props.after).map((row) => ({
+      ...row,
+      leftNumber: row.left === null ? null : ++leftNumber,
+      rightNumber: row.right === null ? null : ++rightNumber,
+    }));
+  });
+  const count = (change: LineChange) =>
+    rows().filter((row) => row.change === change).length;
+  const shownRows = () =>
+    rows().filter((row) => !changesOnly() || row.change !== "same");
+
+  return (
+    <div class="space-y-2">
+      <div class="flex items-center justify-between">
+        <p class="text-[10px] font-semibold text-muted-foreground">
+          <span class="text-emerald-600">+{count("added")} added</span>
+          {" · "}
+          <span class="text-amber-600">~{count("changed")} changed</span>
+          {" · "}
+          <span class="text-destructive">−{count("removed")} removed</span>
+        </p>
+        <label class="flex items-center gap-1.5 text-[10px] font-semibold text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={changesOnly()}
+            onChange={(event) => setChangesOnly(event.currentTarget.checked)}
+          />
+          Changes only
+        </label>
+      </div>
+      <Show
+        when={shownRows().length > 0}
+        fallback={
+          <p class="rounded-xl border border-border/60 bg-muted/4 px-2.5 py-2 text-[10px] text-muted-foreground">
+            No differences.
+          </p>
+        }
+      >
+        <div class="rounded-xl border border-border/60 overflow-hidden">
+          <div class="grid grid-cols-2 border-b border-border/60 bg-muted/30 text-[10px] font-bold text-muted-foreground">
+            <span class="px-2.5 py-1 truncate">{props.beforeLabel}</span>
+            <span class="px-2.5 py-1 truncate border-l border-border/60">
+              {props.afterLabel}
+            </span>
+          </div>
+          <div class="max-h-96 overflow-y-auto font-mono text-[10px] leading-snug">
+            <For each={shownRows().slice(0, MAX_SHOWN_ROWS)}>
+              {(row) => (
+                <div class="grid grid-cols-2">
+                  <div
+                    class="flex gap-2 px-2.5 py-px min-w-0"
+                    classList={{
+                      "bg-destructive/8 text-destructive":
+                        row.change === "removed",
+                      "bg-amber-500/8": row.change === "changed",
+                      "text-foreground/60": row.change === "same",
+                    }}
+                  >
+                    <span class="w-6 shrink-0 text-right text-muted-foreground/60 select-none">
+                      {row.leftNumber ?? ""}
+                    </span>
+                    <span class="whitespace-pre-wrap break-all">
+                      {row.left ?? ""}
+                    </span>
+                  </div>
+                  <div
+                    class="flex gap-2 px-2.5 py-px min-w-0 border-l border-border/60"
+                    classList={{
+                      "bg-emerald-500/8 text-emerald-700":
+                        row.change === "added",
+                      "bg-amber-500/8": row.change === "changed",
+                      "text-foreground/60": row.change === "same",
+                    }}
+                  >
+                    <span class="w-6 shrink-0 text-right text-muted-foreground/60 select-none">
+                      {row.rightNumber ?? ""}
+                    </span>
+                    <span class="whitespace-pre-wrap break-all">
+                      {row.right ?? ""}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </For>
+          </div>
+        </div>
+        <Show when={shownRows().length > MAX_SHOWN_ROWS}>
+          <p class="text-[10px] text-muted-foreground">
+            +{shownRows().length - MAX_SHOWN_ROWS} more lines
+          </p>
+        </Show>
+      </Show>
+    </div>
+  );
+}
+
+export default ConfigDiff;
@@ -0,0 +1,231 @@
+import {
+  createMemo,
+  createSignal,
+  onCleanup,
+  onMount,
+  For,
+  Show,
+} from "solid-js";
+import ConfigDiff from "./ConfigDiff.tsx";
+import { HISTORY_KEY, readHistory, type HistoryEntry } from "./lib/config.ts";
+import { storageGet } from "./lib/chrome.ts";
+import { describeConfig } from "./lib/diff.ts";
+import { sendMessage } from "./lib/messages.ts";
+
+function formatSavedAt(time: number) {
+  return new Date(time).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+}
+
+/**
+ * Lists the configs applied recently, newest first, and diffs any two of
+ * them. Restoring hands an entry back to the editor, which validates and
+ * applies it like any other save.
+ */
+function HistoryPanel(props: {
+  busy: boolean;
+  onRestore: (entry: HistoryEntry) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}) {
+  const [entries, setEntries] = createSignal<HistoryEntry[]>([]);
+  const [fromId, setFromId] = createSignal<string | null>(null);
+  const [toId, setToId] = createSignal<string | null>(null);
+  const [confirmingClear, setConfirmingClear] = createSignal(false);
+  let section: HTMLElement | undefined;
+
+  // Without a choice, the latest change is compared.
+  const findEntry = (id: string | null, fallback: number) =>
+    entries().find((entry) => entry.id === id) ?? entries()[fallback] ?? null;
+  const from = () => findEntry(fromId(), 1);
+  const to = () => findEntry(toId(), 0);
+  const diff = createMemo(() => {
+    const before = from();
+    const after = to();
+    return before && after
+      ? {
+          before: describeConfig(before.config),
+          after: describeConfig(after.config),
+          beforeLabel: formatSavedAt(before.savedAt),
+          afterLabel: formatSavedAt(after.savedAt),
+        }
+      : null;
+  });
+
+  const clear = async () => {
+    if (!confirmingClear()) {
+      setConfirmingClear(true);
+      return;
+    }
+    setConfirmingClear(false);
+    try {
+      await sendMessage({ type: "clearHistory" });
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to clear history.",
+      );
+    }
+  };
+
+  onMount(() => {
+    section?.scrollIntoView({ behavior: "smooth" });
+    if (typeof chrome === "undefined" || !chrome.storage) {
+      return;
+    }
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName === "local" && changes[HISTORY_KEY]) {
+        setEntries(readHistory(changes[HISTORY_KEY].newValue));
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    onCleanup(() => chrome.storage.onChanged.removeListener(handleChange));
+
+    storageGet([HISTORY_KEY])
+      .then((stored) => setEntries(readHistory(stored.configHistory)))
+      .catch((error: unknown) =>
+        props.onError(
+          error instanceof Error ? error.message : "Failed to load history.",
+        ),
+      );
+  });
+
+  const entrySelect = (
+    selected: () => HistoryEntry | null,
+    onSelect: (id: string) => void,
+  ) => (
+    <select
+      onChange={(event) => onSelect(event.currentTarget.value)}
+      class="min-w-0 flex-1 rounded-md bg-muted/40 px-1 py-0.5 text-[10px] font-bold text-muted-foreground focus:outline-none custom-focus"
+    >
+      <For each={entries()}>
+        {(entry) => (
+          <option value={entry.id} selected={entry.id === selected()?.id}>
+            {formatSavedAt(entry.savedAt)} · {entry.summary}
+          </option>
+        )}
+      </For>
+    </select>
+  );
+
+  return (
+    <section
+      ref={section}
+      class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5 animate-fade-in"
+    >
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+            <path d="M3 3v5h5" />
+            <path d="M12 7v5l4 2" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            History
+          </h2>
+        </div>
+        <div class="flex items-center gap-1.5">
+          <Show when={entries().length > 0}>
+            <button
+              onClick={() => void clear()}
+              onBlur={() => setConfirmingClear(false)}
+              class="h-6 rounded-lg px-2 text-[10px] font-bold border transition-all custom-focus"
+              classList={{
+                "bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border-border/50":
+                  !confirmingClear(),
+                "text-destructive border-destructive/30 hover:bg-destructive/10":
+                  confirmingClear(),
+              }}
+            >
+              {confirmingClear() ? "Confirm Clear" : "Clear"}
+            </button>
+          </Show>
+          <button
+            onClick={() => props.onClose()}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <Show
+        when={entries().length > 0}
+        fallback={
+          <p class="text-[10px] text-muted-foreground">
+            Nothing saved yet. Each applied change is kept here.
+          </p>
+        }
+      >
+        <ul class="space-y-1 max-h-48 overflow-y-auto">
+          <For each={entries()}>
+            {(entry, index) => (
+              <li class="flex items-center gap-2 rounded-xl border border-border/60 bg-muted/4 px-2.5 py-1.5">
+                <div class="min-w-0 flex-1">
+                  <p class="text-[10px] font-semibold text-foreground/80 break-words">
+                    {entry.summary}
+                  </p>
+                  <p class="text-[9px] font-mono text-muted-foreground">
+                    {formatSavedAt(entry.savedAt)}
+                    <Show when={index() === 0}>
+                      <span class="ml-1.5 rounded-md bg-primary/10 px-1 font-sans font-bold text-primary">
+                        LATEST
+                      </span>
+                    </Show>
+                  </p>
+                </div>
+                <button
+                  onClick={() => props.onRestore(entry)}
+                  disabled={props.busy}
+                  class="shrink-0 h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus disabled:opacity-50"
+                  title="Validate and apply these settings again"
+                >
+                  Restore
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+        <Show when={entries().length > 1}>
+          <div class="flex items-center gap-1.5 text-[10px] font-semibold text-muted-foreground">
+            {entrySelect(from, setFromId)}
+            <span>→</span>
+            {entrySelect(to, setToId)}
+          </div>
+          <Show when={diff()}>
+            {(shown) => (
+              <ConfigDiff
+                before={shown().before}
+                after={shown().after}
+                beforeLabel={shown().beforeLabel}
+                afterLabel={shown().afterLabel}
+              />
+            )}
+          </Show>
+        </Show>
+      </Show>
+    </section>
+  );
+}
+
+export default HistoryPanel;
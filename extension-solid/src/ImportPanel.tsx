@@ -0,0 +1,252 @@
+import { createSignal, onMount, For, Show } from "solid-js";
+import {
+  IMPORT_FORMAT_LABELS,
+  parseImport,
+  type ImportPreview,
+} from "./lib/importers.ts";
+import { SECRET_MASK, type RuleConfig } from "./lib/config.ts";
+import { formatSchemaError } from "./lib/schema.ts";
+
+export type ImportMode = "merge" | "replace";
+
+// Longer error lists are summarized so the buttons stay within reach.
+const MAX_SHOWN_ERRORS = 20;
+
+export function describeRule(rule: RuleConfig) {
+  const scope =
+    rule.domains.length === 0
+      ? "all sites"
+      : `${rule.domains.length} domain${rule.domains.length === 1 ? "" : "s"}`;
+  if (rule.kind !== "headers") {
+    return `${rule.name} · ${rule.kind} · ${scope}`;
+  }
+
+  const count = rule.headers.length + rule.responseHeaders.length;
+  return `${rule.name} · ${count} header${count === 1 ? "" : "s"} · ${scope}`;
+}
+
+/**
+ * Parses pasted text or a file in any supported format and previews the
+ * result, including dropped items, before anything touches the editor.
+ */
+function ImportPanel(props: {
+  onImport: (preview: ImportPreview, mode: ImportMode) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = createSignal("");
+  const [preview, setPreview] = createSignal<ImportPreview | null>(null);
+  const [error, setError] = createSignal("");
+  let fileInput: HTMLInputElement | undefined;
+  let section: HTMLElement | undefined;
+
+  // The panel opens from the footer, usually below the fold.
+  onMount(() => section?.scrollIntoView({ behavior: "smooth" }));
+
+  const parse = (value: string) => {
+    try {
+      setPreview(parseImport(value));
+      setError("");
+    } catch (parseError) {
+      setPreview(null);
+      setError(
+        parseError instanceof Error
+          ? parseError.message
+          : "Failed to read the import.",
+      );
+    }
+  };
+
+  const readFile = async (event: Event) => {
+    const target = event.currentTarget as HTMLInputElement;
+    const file = target.files?.[0];
+    target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const content = await file.text();
+    setText(content);
+    parse(content);
+  };
+
+  return (
+    <section
+      ref={section}
+      class="rounded-2xl border border-primary/30 bg-card shadow-card p-3 space-y-2.5 animate-fade-in"
+    >
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+            <polyline points="17 8 12 3 7 8" />
+            <line x1="12" x2="12" y1="3" y2="15" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            Import
+          </h2>
+        </div>
+        <button
+          onClick={() => props.onClose()}
+          class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+        >
+          Cancel
+        </button>
+      </div>
+      <textarea
+        value={text()}
+        onInput={(event) => {
+          setText(event.currentTarget.value);
+          setPreview(null);
+          setError("");
+        }}
+        placeholder={
+          "Paste a cURL command, Key: Value lines,\nModHeader or HAR JSON, or an exported config"
+        }
+        rows={4}
+        class="w-full rounded-xl border border-border/70 bg-muted/4 focus:bg-muted/6 transition-all px-3 py-2 text-[11px] font-mono focus:outline-none placeholder:text-muted-foreground/40 placeholder:font-sans resize-none custom-focus"
+      />
+      <div class="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => fileInput?.click()}
+          class="h-7 rounded-lg text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus"
+        >
+          Choose File
+        </button>
+        <button
+          onClick={() => parse(text())}
+          disabled={text().trim() === ""}
+          class="h-7 rounded-lg text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+        >
+          Preview
+        </button>
+      </div>
+      <Show when={error()}>
+        <p class="text-[10px] font-semibold text-destructive">{error()}</p>
+      </Show>
+      <Show when={preview()}>
+        {(result) => (
+          <div class="space-y-2">
+            <p class="text-[10px] font-bold text-muted-foreground">
+              {IMPORT_FORMAT_LABELS[result().format]}
+            </p>
+            <ul class="space-y-1">
+              <For each={result().profiles}>
+                {(profile) => (
+                  <li class="rounded-xl border border-border/60 bg-muted/4 px-2.5 py-1.5 space-y-0.5">
+                    <p class="truncate text-[11px] font-semibold text-foreground/80">
+                      {profile.name}
+                    </p>
+                    <For each={profile.rules}>
+                      {(rule) => (
+                        <p
+                          class="truncate text-[10px] text-muted-foreground"
+                          title={[...rule.headers, ...rule.responseHeaders]
+                            .map(
+                              (header) =>
+                                `${header.key}: ${header.secret ? SECRET_MASK : header.value}`,
+                            )
+                            .join("\n")}
+                        >
+                          {describeRule(rule)}
+                        </p>
+                      )}
+                    </For>
+                  </li>
+                )}
+              </For>
+            </ul>
+            <Show when={result().dropped.length > 0}>
+              <details class="rounded-xl border border-amber-500/30 bg-amber-500/5">
+                <summary class="cursor-pointer list-none px-2.5 py-1.5 text-[10px] font-bold text-amber-600">
+                  {result().dropped.length} item
+                  {result().dropped.length === 1 ? "" : "s"} dropped
+                </summary>
+                <ul class="px-2.5 pb-2 space-y-1 max-h-32 overflow-y-auto">
+                  <For each={result().dropped}>
+                    {(item) => (
+                      <li class="text-[10px] leading-snug">
+                        <span class="block truncate font-semibold text-foreground/70">
+                          {item.item}
+                        </span>
+                        <span class="text-muted-foreground">{item.reason}</span>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </details>
+            </Show>
+            <Show when={result().errors.length > 0}>
+              <div class="rounded-xl border border-destructive/30 bg-destructive/5 px-2.5 py-1.5 space-y-1">
+                <p class="text-[10px] font-bold text-destructive">
+                  {result().errors.length} invalid field
+                  {result().errors.length === 1 ? "" : "s"}; fix the file and
+                  preview again
+                </p>
+                <ul class="space-y-1 max-h-32 overflow-y-auto">
+                  <For each={result().errors.slice(0, MAX_SHOWN_ERRORS)}>
+                    {(schemaError) => (
+                      <li
+                        class="text-[10px] leading-snug"
+                        title={formatSchemaError(schemaError)}
+                      >
+                        <span class="block truncate font-mono font-semibold text-foreground/70">
+                          {schemaError.path}
+                        </span>
+                        <span class="text-muted-foreground">
+                          {schemaError.reason}
+                        </span>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+                <Show when={result().errors.length > MAX_SHOWN_ERRORS}>
+                  <p class="text-[10px] text-muted-foreground">
+                    +{result().errors.length - MAX_SHOWN_ERRORS} more
+                  </p>
+                </Show>
+              </div>
+            </Show>
+            <div class="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => props.onImport(result(), "merge")}
+                disabled={result().errors.length > 0}
+                class="h-7 rounded-lg text-[10px] font-bold bg-muted/40 text-foreground/80 hover:bg-muted/60 border border-border/50 transition-all custom-focus disabled:opacity-50"
+                title="Add the imported profiles next to the existing ones"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => props.onImport(result(), "replace")}
+                disabled={result().errors.length > 0}
+                class="h-7 rounded-lg text-[10px] font-bold text-destructive hover:bg-destructive/10 border border-destructive/30 transition-all custom-focus disabled:opacity-50"
+                title="Replace all profiles with the imported ones"
+              >
+                Replace
+              </button>
+            </div>
+          </div>
+        )}
+      </Show>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,.har,.txt,.sh,application/json,text/plain"
+        class="hidden"
+        onChange={(event) => void readFile(event)}
+      />
+    </section>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,1375 @@
+import {
+  createMemo,
+  createSignal,
+  onCleanup,
+  onMount,
+  For,
+  Show,
+  type JSX,
+} from "solid-js";
+import ConfigDiff from "./ConfigDiff.tsx";
+import {
+  CONFIG_STORAGE_KEYS,
+  type AppliedConfig,
+  type DomainMatchMode,
+  type HeaderConfig,
+  type HeaderOperation,
+} from "./lib/config.ts";
+import {
+  HEADER_OPERATIONS,
+  checkRegexSupport,
+  createDefaultHeaders,
+  createRuleDraft,
+  formatHeaderText,
+  isExclusion,
+  loadEditableConfig,
+  parseHeaderText,
+  profileToDraft,
+  splitExclusions,
+  validateProfiles,
+  type HeaderTarget,
+  type ProfileDraft,
+  type RuleDraft,
+} from "./lib/drafts.ts";
+import { describeConfig } from "./lib/diff.ts";
+import { splitScopeEntry } from "./lib/rules.ts";
+import {
+  EXCLUSION_PREFIX,
+  parseDomains,
+  validateScopeEntry,
+} from "./lib/scope.ts";
+import { buildApplyPreview } from "./lib/preview.ts";
+import { sendMessage } from "./lib/messages.ts";
+
+type StatusType = "success" | "error";
+type EditorMode = "table" | "text";
+type RuleSortKey = "order" | "name" | "kind" | "scope" | "headers";
+type HeaderSortKey = "target" | "operation" | "key" | "value";
+type ScopeSortKey = "entry" | "type";
+
+interface SortState<Key> {
+  key: Key;
+  descending: boolean;
+}
+
+interface ScopeRow {
+  entry: string;
+  excluded: boolean;
+  error: string | null;
+}
+
+interface Review {
+  config: AppliedConfig;
+  before: string[];
+  after: string[];
+  warnings: string[];
+}
+
+const DOMAIN_MATCH_MODES: { mode: DomainMatchMode; label: string }[] = [
+  { mode: "exact", label: "Exact" },
+  { mode: "include_subdomains", label: "Host + subdomains" },
+  { mode: "subdomains_only", label: "Subdomains only" },
+  { mode: "regex", label: "Regex" },
+];
+
+const compareText = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+const scopeEntries = (rule: RuleDraft) =>
+  parseDomains(rule.domainInput, rule.domainMatchMode);
+
+const countHeaders = (rule: RuleDraft) =>
+  rule.kind === "headers"
+    ? [...rule.headers, ...rule.responseHeaders].filter(
+        (header) => header.key.trim() !== "",
+      ).length
+    : 0;
+
+// Excluded hosts cover their subdomains and bare paths need no host, as in
+// the shared rule validation.
+function validateScopeRow(entry: string, excluded: boolean, rule: RuleDraft) {
+  if (!excluded) {
+    return validateScopeEntry(entry, rule.domainMatchMode);
+  }
+  if (rule.domainMatchMode === "regex" || splitScopeEntry(entry).host === "") {
+    return null;
+  }
+  return validateScopeEntry(entry, "include_subdomains");
+}
+
+function SortHeader<Key>(props: {
+  label: string;
+  sortKey: Key;
+  sort: SortState<Key> | null;
+  onSort: (key: Key) => void;
+}) {
+  const active = () => props.sort?.key === props.sortKey;
+  return (
+    <button
+      onClick={() => props.onSort(props.sortKey)}
+      class="text-left text-[10px] font-bold uppercase tracking-wider transition-colors custom-focus"
+      classList={{
+        "text-foreground": active(),
+        "text-muted-foreground hover:text-foreground/70": !active(),
+      }}
+    >
+      {props.label}
+      {active() ? (props.sort?.descending ? " ↓" : " ↑") : ""}
+    </button>
+  );
+}
+
+function ModeSwitch(props: {
+  mode: EditorMode;
+  onChange: (mode: EditorMode) => void;
+}) {
+  return (
+    <div class="flex rounded-lg bg-muted/30 p-0.5">
+      <For each={["table", "text"] as EditorMode[]}>
+        {(mode) => (
+          <button
+            onClick={() => props.onChange(mode)}
+            class="h-5 rounded-md px-2 text-[10px] font-bold capitalize transition-all custom-focus"
+            classList={{
+              "bg-card text-foreground shadow-sm": props.mode === mode,
+              "text-muted-foreground hover:text-foreground/70":
+                props.mode !== mode,
+            }}
+          >
+            {mode}
+          </button>
+        )}
+      </For>
+    </div>
+  );
+}
+
+function Section(props: {
+  title: string;
+  actions?: JSX.Element;
+  children: JSX.Element;
+}) {
+  return (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center justify-between gap-2">
+        <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+          {props.title}
+        </h2>
+        <div class="flex items-center gap-1.5">{props.actions}</div>
+      </div>
+      {props.children}
+    </section>
+  );
+}
+
+const smallButtonClass =
+  "h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus disabled:opacity-50";
+const inputClass =
+  "rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus";
+const textareaClass =
+  "w-full rounded-xl border border-border/70 bg-muted/4 focus:bg-muted/6 transition-all px-3 py-2 text-[12px] font-mono focus:outline-none placeholder:text-muted-foreground/40 resize-y custom-focus";
+
+/**
+ * Full-page editor for long header and scope lists. It edits the same
+ * stored config as the popup, validates it with the same rules and shows
+ * a diff against the applied config before saving.
+ */
+function OptionsPage() {
+  const [profiles, setProfiles] = createSignal<ProfileDraft[]>([]);
+  const [activeProfileIds, setActiveProfileIds] = createSignal<string[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = createSignal("");
+  const [selectedRuleId, setSelectedRuleId] = createSignal<number | null>(null);
+  const [dirty, setDirty] = createSignal(false);
+  const [outdated, setOutdated] = createSignal(false);
+  const [saving, setSaving] = createSignal(false);
+  const [review, setReview] = createSignal<Review | null>(null);
+  const [statusMsg, setStatusMsg] = createSignal("");
+  const [statusType, setStatusType] = createSignal<StatusType>("success");
+
+  const [ruleFilter, setRuleFilter] = createSignal("");
+  const [ruleSort, setRuleSort] = createSignal<SortState<RuleSortKey>>({
+    key: "order",
+    descending: false,
+  });
+  const [headerMode, setHeaderMode] = createSignal<EditorMode>("table");
+  const [headerFilter, setHeaderFilter] = createSignal("");
+  const [headerSort, setHeaderSort] =
+    createSignal<SortState<HeaderSortKey> | null>(null);
+  // Sorting is applied when a column is clicked, so rows do not jump
+  // around while their key or value is being typed.
+  const [headerOrder, setHeaderOrder] = createSignal<HeaderConfig[] | null>(
+    null,
+  );
+  const [headerText, setHeaderText] = createSignal({
+    request: "",
+    response: "",
+  });
+  const [headerTextErrors, setHeaderTextErrors] = createSignal<
+    Partial<Record<HeaderTarget, string>>
+  >({});
+  // Secrets are masked in text mode and recovered from this snapshot.
+  let headerTextBase: Record<HeaderTarget, HeaderConfig[]> = {
+    request: [],
+    response: [],
+  };
+  const [scopeMode, setScopeMode] = createSignal<EditorMode>("table");
+  const [scopeFilter, setScopeFilter] = createSignal("");
+  const [scopeSort, setScopeSort] =
+    createSignal<SortState<ScopeSortKey> | null>(null);
+  const [newScopeEntry, setNewScopeEntry] = createSignal("");
+  const [newScopeExcluded, setNewScopeExcluded] = createSignal(false);
+
+  const setStatus = (msg: string, type: StatusType, timeoutMs = 3000) => {
+    setStatusMsg(msg);
+    setStatusType(type);
+    setTimeout(() => setStatusMsg(""), timeoutMs);
+  };
+
+  const selectedProfile = createMemo(
+    () =>
+      profiles().find((profile) => profile.id === selectedProfileId()) ??
+      profiles()[0],
+  );
+  const selectedRule = createMemo(() => {
+    const rules = selectedProfile()?.rules ?? [];
+    return rules.find((rule) => rule.id === selectedRuleId()) ?? rules[0];
+  });
+
+  const updateSelectedProfile = (patch: Partial<ProfileDraft>) => {
+    const id = selectedProfile().id;
+    setProfiles(
+      profiles().map((profile) =>
+        profile.id === id ? { ...profile, ...patch } : profile,
+      ),
+    );
+    setDirty(true);
+  };
+
+  const updateSelectedRule = (patch: Partial<RuleDraft>) => {
+    const id = selectedRule().id;
+    updateSelectedProfile({
+      rules: selectedProfile().rules.map((rule) =>
+        rule.id === id ? { ...rule, ...patch } : rule,
+      ),
+    });
+  };
+
+  const nextRuleId = () =>
+    Math.max(
+      0,
+      ...profiles().flatMap((profile) => profile.rules.map((rule) => rule.id)),
+    ) + 1;
+
+  const loadHeaderText = () => {
+    const rule = selectedRule();
+    if (!rule) {
+      return;
+    }
+    headerTextBase = {
+      request: rule.headers,
+      response: rule.responseHeaders,
+    };
+    setHeaderText({
+      request: formatHeaderText(rule.headers),
+      response: formatHeaderText(rule.responseHeaders),
+    });
+    setHeaderTextErrors({});
+  };
+
+  const selectRule = (id: number) => {
+    setSelectedRuleId(id);
+    setHeaderOrder(null);
+    setHeaderSort(null);
+    if (headerMode() === "text") {
+      loadHeaderText();
+    }
+  };
+
+  const selectProfile = (id: string) => {
+    setSelectedProfileId(id);
+    selectRule(selectedProfile().rules[0].id);
+  };
+
+  const loadStoredConfig = async () => {
+    const { config, error } = await loadEditableConfig();
+    if (error) {
+      setStatus(error, "error", 6000);
+    }
+    const drafts = config.profiles.map(profileToDraft);
+    setProfiles(drafts);
+    setActiveProfileIds(config.activeProfileIds);
+    const profile =
+      drafts.find((item) => item.id === selectedProfileId()) ??
+      drafts.find((item) => config.activeProfileIds.includes(item.id)) ??
+      drafts[0];
+    setSelectedProfileId(profile.id);
+    selectRule(
+      profile.rules.find((rule) => rule.id === selectedRuleId())?.id ??
+        profile.rules[0].id,
+    );
+    setDirty(false);
+    setOutdated(false);
+    setReview(null);
+  };
+
+  const reload = async () => {
+    try {
+      await loadStoredConfig();
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Failed to load settings.",
+        "error",
+        4500,
+      );
+    }
+  };
+
+  onMount(() => {
+    if (
+      typeof chrome === "undefined" ||
+      !chrome.storage ||
+      !chrome.declarativeNetRequest
+    ) {
+      setStatus(
+        "Chrome extension APIs are unavailable in this environment.",
+        "error",
+        4500,
+      );
+      return;
+    }
+
+    void reload();
+
+    // The popup, shortcuts and the context menu write the same config.
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (
+        areaName === "local" &&
+        !saving() &&
+        CONFIG_STORAGE_KEYS.some((key) => key in changes)
+      ) {
+        setOutdated(true);
+      }
+    };
+    const handleUnload = (event: BeforeUnloadEvent) => {
+      if (dirty()) {
+        event.preventDefault();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    window.addEventListener("beforeunload", handleUnload);
+    onCleanup(() => {
+      chrome.storage.onChanged.removeListener(handleChange);
+      window.removeEventListener("beforeunload", handleUnload);
+    });
+  });
+
+  const toggleRuleSort = (key: RuleSortKey) => {
+    const current = ruleSort();
+    setRuleSort({
+      key,
+      descending: current.key === key ? !current.descending : false,
+    });
+  };
+
+  const shownRules = createMemo(() => {
+    const filter = ruleFilter().trim().toLowerCase();
+    const rules = (selectedProfile()?.rules ?? []).filter(
+      (rule) =>
+        filter === "" ||
+        rule.name.toLowerCase().includes(filter) ||
+        scopeEntries(rule).some((entry) => entry.includes(filter)) ||
+        [...rule.headers, ...rule.responseHeaders].some((header) =>
+          header.key.toLowerCase().includes(filter),
+        ),
+    );
+
+    const { key, descending } = ruleSort();
+    if (key === "order") {
+      return descending ? [...rules].reverse() : rules;
+    }
+    const compare = (a: RuleDraft, b: RuleDraft) =>
+      key === "name"
+        ? compareText(a.name, b.name)
+        : key === "kind"
+          ? compareText(a.kind, b.kind)
+          : key === "scope"
+            ? scopeEntries(a).length - scopeEntries(b).length
+            : countHeaders(a) - countHeaders(b);
+    return [...rules].sort(
+      (a, b) => compare(a, b) * (descending ? -1 : 1) || a.id - b.id,
+    );
+  });
+
+  const addRule = () => {
+    const rules = selectedProfile().rules;
+    const draft = createRuleDraft(nextRuleId(), `Rule ${rules.length + 1}`);
+    updateSelectedProfile({ rules: [...rules, draft] });
+    selectRule(draft.id);
+  };
+
+  const deleteRule = () => {
+    const rules = selectedProfile().rules;
+    if (rules.length <= 1) {
+      setStatus("A profile needs at least one rule.", "error");
+      return;
+    }
+    const id = selectedRule().id;
+    const remaining = rules.filter((rule) => rule.id !== id);
+    updateSelectedProfile({ rules: remaining });
+    selectRule(remaining[0].id);
+  };
+
+  const toggleRuleEnabled = (id: number) =>
+    updateSelectedProfile({
+      rules: selectedProfile().rules.map((rule) =>
+        rule.id === id ? { ...rule, enabled: !rule.enabled } : rule,
+      ),
+    });
+
+  const toggleProfileActive = () => {
+    const id = selectedProfile().id;
+    setActiveProfileIds(
+      activeProfileIds().includes(id)
+        ? activeProfileIds().filter((item) => item !== id)
+        : [...activeProfileIds(), id],
+    );
+    setDirty(true);
+  };
+
+  const headerList = (target: HeaderTarget) =>
+    target === "request"
+      ? selectedRule().headers
+      : selectedRule().responseHeaders;
+  const setHeaderList = (target: HeaderTarget, next: HeaderConfig[]) =>
+    updateSelectedRule(
+      target === "request" ? { headers: next } : { responseHeaders: next },
+    );
+  const targetOf = (header: HeaderConfig): HeaderTarget =>
+    selectedRule().headers.includes(header) ? "request" : "response";
+
+  const headerRows = createMemo(() => {
+    const rule = selectedRule();
+    if (!rule) {
+      return [];
+    }
+    const filter = headerFilter().trim().toLowerCase();
+    const rows = [...rule.headers, ...rule.responseHeaders].filter(
+      (header) =>
+        filter === "" ||
+        header.key.toLowerCase().includes(filter) ||
+        (!header.secret && header.value.toLowerCase().includes(filter)),
+    );
+    const order = headerOrder();
+    if (!order) {
+      return rows;
+    }
+    // Rows added after sorting go last.
+    const position = (header: HeaderConfig) => {
+      const index = order.indexOf(header);
+      return index === -1 ? order.length : index;
+    };
+    return [...rows].sort((a, b) => position(a) - position(b));
+  });
+
+  const sortHeaders = (key: HeaderSortKey) => {
+    const current = headerSort();
+    const descending = current?.key === key ? !current.descending : false;
+    const value = (header: HeaderConfig) =>
+      key === "target"
+        ? targetOf(header)
+        : key === "operation"
+          ? header.operation
+          : key === "key"
+            ? header.key
+            : header.secret
+              ? ""
+              : header.value;
+    setHeaderSort({ key, descending });
+    setHeaderOrder(
+      [...selectedRule().headers, ...selectedRule().responseHeaders].sort(
+        (a, b) => compareText(value(a), value(b)) * (descending ? -1 : 1),
+      ),
+    );
+  };
+
+  // Typing edits the row in place so its inputs keep focus.
+  const updateHeaderField = (
+    header: HeaderConfig,
+    field: "key" | "value",
+    value: string,
+  ) => {
+    const target = targetOf(header);
+    header[field] = value;
+    setHeaderList(target, [...headerList(target)]);
+  };
+
+  const updateHeaderOperation = (
+    header: HeaderConfig,
+    operation: HeaderOperation,
+  ) => {
+    const target = targetOf(header);
+    const next = {
+      ...header,
+      operation,
+      value: operation === "remove" ? "" : header.value,
+    };
+    setHeaderList(
+      target,
+      headerList(target).map((item) => (item === header ? next : item)),
+    );
+    setHeaderOrder(
+      (order) => order?.map((item) => (item === header ? next : item)) ?? null,
+    );
+  };
+
+  const addHeader = (target: HeaderTarget) =>
+    setHeaderList(target, [
+      ...headerList(target),
+      { key: "", value: "", operation: "set" },
+    ]);
+
+  const removeHeaders = (removed: HeaderConfig[]) => {
+    const keep = (headers: HeaderConfig[]) => {
+      const remaining = headers.filter((header) => !removed.includes(header));
+      return remaining.length > 0 ? remaining : createDefaultHeaders();
+    };
+    updateSelectedRule({
+      headers: keep(selectedRule().headers),
+      responseHeaders: keep(selectedRule().responseHeaders),
+    });
+  };
+
+  const switchHeaderMode = (mode: EditorMode) => {
+    if (mode === "text") {
+      loadHeaderText();
+    }
+    setHeaderMode(mode);
+  };
+
+  const updateHeaderText = (target: HeaderTarget, text: string) => {
+    setHeaderText({ ...headerText(), [target]: text });
+    const result = parseHeaderText(text, headerTextBase[target]);
+    if (!result.ok) {
+      setHeaderTextErrors({ ...headerTextErrors(), [target]: result.error });
+      return;
+    }
+    setHeaderTextErrors({ ...headerTextErrors(), [target]: undefined });
+    setHeaderList(target, result.headers);
+  };
+
+  const scopeRows = createMemo((): ScopeRow[] => {
+    const rule = selectedRule();
+    if (!rule) {
+      return [];
+    }
+    const filter = scopeFilter().trim().toLowerCase();
+    const rows = scopeEntries(rule)
+      .map((item) => {
+        const excluded = isExclusion(item);
+        const entry = excluded ? item.slice(EXCLUSION_PREFIX.length) : item;
+        return {
+          entry,
+          excluded,
+          error: validateScopeRow(entry, excluded, rule),
+        };
+      })
+      .filter(
+        (row) => filter === "" || row.entry.toLowerCase().includes(filter),
+      );
+
+    const sort = scopeSort();
+    if (!sort) {
+      return rows;
+    }
+    const compare = (a: ScopeRow, b: ScopeRow) =>
+      sort.key === "entry"
+        ? compareText(a.entry, b.entry)
+        : Number(a.excluded) - Number(b.excluded) ||
+          compareText(a.entry, b.entry);
+    return [...rows].sort((a, b) => compare(a, b) * (sort.descending ? -1 : 1));
+  });
+
+  const toggleScopeSort = (key: ScopeSortKey) => {
+    const current = scopeSort();
+    setScopeSort({
+      key,
+      descending: current?.key === key ? !current.descending : false,
+    });
+  };
+
+  const scopeItem = (row: ScopeRow) =>
+    row.excluded ? `${EXCLUSION_PREFIX}${row.entry}` : row.entry;
+
+  const writeScopeEntries = (entries: string[]) =>
+    updateSelectedRule({ domainInput: entries.join("\n") });
+
+  const removeScopeRows = (rows: ScopeRow[]) => {
+    const removed = new Set(rows.map(scopeItem));
+    writeScopeEntries(
+      scopeEntries(selectedRule()).filter((entry) => !removed.has(entry)),
+    );
+  };
+
+  const toggleScopeExcluded = (row: ScopeRow) => {
+    const item = scopeItem(row);
+    const flipped = scopeItem({ ...row, excluded: !row.excluded });
+    writeScopeEntries(
+      scopeEntries(selectedRule()).map((entry) =>
+        entry === item ? flipped : entry,
+      ),
+    );
+  };
+
+  const addScopeEntry = () => {
+    const rule = selectedRule();
+    const [parsed] = parseDomains(newScopeEntry(), rule.domainMatchMode);
+    if (!parsed) {
+      return;
+    }
+    const excluded = newScopeExcluded() || isExclusion(parsed);
+    const entry = isExclusion(parsed)
+      ? parsed.slice(EXCLUSION_PREFIX.length)
+      : parsed;
+    const error = validateScopeRow(entry, excluded, rule);
+    if (error) {
+      setStatus(error, "error");
+      return;
+    }
+    const item = scopeItem({ entry, excluded, error: null });
+    const entries = scopeEntries(rule);
+    if (!entries.includes(item)) {
+      writeScopeEntries([...entries, item]);
+    }
+    setNewScopeEntry("");
+  };
+
+  const reviewChanges = async () => {
+    setSaving(true);
+    try {
+      // The stored config is read again so settings changed elsewhere,
+      // like the on switch or the schedule, are kept as they are.
+      const { config: stored } = await loadEditableConfig();
+      const result = validateProfiles(profiles(), stored.variables);
+      if (!result.ok) {
+        setStatus(result.error, "error", 4500);
+        return;
+      }
+      const regexError = await checkRegexSupport(result.profiles);
+      if (regexError) {
+        setStatus(regexError, "error", 4500);
+        return;
+      }
+
+      const ids = new Set(result.profiles.map((profile) => profile.id));
+      const config: AppliedConfig = {
+        ...stored,
+        profiles: result.profiles,
+        activeProfileIds: activeProfileIds().filter((id) => ids.has(id)),
+      };
+      setReview({
+        config,
+        before: describeConfig(stored),
+        after: describeConfig(config),
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Failed to compare changes.",
+        "error",
+        4500,
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveReviewed = async () => {
+    const current = review();
+    if (!current) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const preview = await buildApplyPreview(current.config);
+      if (preview.errors.length > 0) {
+        setStatus(preview.errors[0], "error", 4500);
+        return;
+      }
+      await sendMessage({ type: "apply", config: current.config });
+      await loadStoredConfig();
+      setStatus("Changes applied successfully.", "success", 2500);
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Unexpected save error.",
+        "error",
+        4500,
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div class="min-h-screen bg-linear-to-b from-background via-background to-muted/20">
+      {/* Toast 通知横幅 */}
+      <Show when={statusMsg()}>
+        <div class="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md animate-toast-in">
+          <div
+            class="rounded-xl px-4 py-2.5 shadow-toast"
+            classList={{
+              "toast-success": statusType() === "success",
+              "toast-error": statusType() === "error",
+            }}
+          >
+            <span class="text-xs font-bold leading-tight">{statusMsg()}</span>
+          </div>
+        </div>
+      </Show>
+
+      <div class="max-w-6xl mx-auto px-6 py-6 space-y-4">
+        {/* Header */}
+        <header class="rounded-2xl border border-border/80 bg-linear-to-b from-card to-card/95 shadow-card px-4 py-3 flex items-center justify-between gap-4">
+          <div>
+            <h1 class="text-base font-extrabold tracking-tight text-foreground leading-tight">
+              Header Modifier
+            </h1>
+            <p class="text-[10px] font-semibold text-muted-foreground uppercase tracking-[0.15em] mt-0.5">
+              Options
+            </p>
+          </div>
+          <div class="flex items-center gap-2">
+            <Show when={dirty()}>
+              <span class="text-[10px] font-semibold text-amber-600">
+                Unsaved changes
+              </span>
+            </Show>
+            <button
+              onClick={() => void reload()}
+              disabled={saving()}
+              class={smallButtonClass}
+              title="Discard edits and load the stored settings"
+            >
+              Reload
+            </button>
+            <button
+              onClick={() => void reviewChanges()}
+              disabled={saving() || profiles().length === 0}
+              class="h-7 rounded-lg px-3 text-[11px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+            >
+              Review &amp; Save
+            </button>
+          </div>
+        </header>
+
+        <Show when={outdated()}>
+          <div class="rounded-xl border border-amber-500/30 bg-amber-500/8 px-3 py-2 flex items-center justify-between gap-3">
+            <p class="text-[11px] text-amber-700">
+              The settings were changed elsewhere. Reload to pick them up;
+              unsaved edits here are discarded.
+            </p>
+            <button onClick={() => void reload()} class={smallButtonClass}>
+              Reload
+            </button>
+          </div>
+        </Show>
+
+        {/* Review 区域 */}
+        <Show when={review()}>
+          {(current) => (
+            <Section
+              title="Review Changes"
+              actions={
+                <>
+                  <button
+                    onClick={() => setReview(null)}
+                    class={smallButtonClass}
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={() => void saveReviewed()}
+                    disabled={saving()}
+                    class="h-6 rounded-lg px-2.5 text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+                  >
+                    Save &amp; Apply
+                  </button>
+                </>
+              }
+            >
+              <Show when={current().warnings.length > 0}>
+                <ul class="rounded-xl border border-amber-500/30 bg-amber-500/5 px-2.5 py-1.5 space-y-1">
+                  <For each={current().warnings}>
+                    {(warning) => (
+                      <li class="text-[10px] leading-snug text-amber-700 break-words">
+                        {warning}
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </Show>
+              <ConfigDiff
+                before={current().before}
+                after={current().after}
+                beforeLabel="Applied"
+                afterLabel="Edited"
+              />
+            </Section>
+          )}
+        </Show>
+
+        <Show when={selectedProfile() && selectedRule()}>
+          {/* Profile 切换 */}
+          <div class="flex flex-wrap items-center gap-1.5">
+            <For each={profiles()}>
+              {(profile) => (
+                <button
+                  onClick={() => selectProfile(profile.id)}
+                  class="h-7 rounded-lg px-3 text-[11px] font-bold border transition-all custom-focus inline-flex items-center gap-1.5"
+                  classList={{
+                    "bg-primary/8 text-primary border-primary/30":
+                      profile.id === selectedProfile().id,
+                    "bg-card text-muted-foreground border-border/60 hover:text-foreground/80":
+                      profile.id !== selectedProfile().id,
+                  }}
+                >
+                  <span
+                    class="h-1.5 w-1.5 rounded-full"
+                    classList={{
+                      "bg-emerald-500": activeProfileIds().includes(profile.id),
+                      "bg-slate-300": !activeProfileIds().includes(profile.id),
+                    }}
+                  />
+                  {profile.name}
+                </button>
+              )}
+            </For>
+            <label class="ml-auto flex items-center gap-1.5 text-[11px] font-semibold text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={activeProfileIds().includes(selectedProfile().id)}
+                onChange={() => toggleProfileActive()}
+              />
+              Profile active
+            </label>
+          </div>
+
+          <div class="grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-4 items-start">
+            {/* 规则表 */}
+            <Section
+              title={`Rules (${selectedProfile().rules.length})`}
+              actions={
+                <>
+                  <button onClick={addRule} class={smallButtonClass}>
+                    Add
+                  </button>
+                  <button onClick={deleteRule} class={smallButtonClass}>
+                    Delete
+                  </button>
+                </>
+              }
+            >
+              <input
+                type="search"
+                value={ruleFilter()}
+                onInput={(event) => setRuleFilter(event.currentTarget.value)}
+                placeholder="Filter by name, scope or header"
+                class={`w-full ${inputClass}`}
+              />
+              <div class="grid grid-cols-[20px_minmax(0,1fr)_64px_52px_56px] gap-2 px-2">
+                <span />
+                <SortHeader
+                  label="Name"
+                  sortKey={"name" as RuleSortKey}
+                  sort={ruleSort()}
+                  onSort={toggleRuleSort}
+                />
+                <SortHeader
+                  label="Kind"
+                  sortKey={"kind" as RuleSortKey}
+                  sort={ruleSort()}
+                  onSort={toggleRuleSort}
+                />
+                <SortHeader
+                  label="Scope"
+                  sortKey={"scope" as RuleSortKey}
+                  sort={ruleSort()}
+                  onSort={toggleRuleSort}
+                />
+                <SortHeader
+                  label="Headers"
+                  sortKey={"headers" as RuleSortKey}
+                  sort={ruleSort()}
+                  onSort={toggleRuleSort}
+                />
+              </div>
+              <ul class="space-y-1 max-h-[60vh] overflow-y-auto">
+                <For
+                  each={shownRules()}
+                  fallback={
+                    <li class="px-2 py-1.5 text-[11px] text-muted-foreground">
+                      No rules match the filter.
+                    </li>
+                  }
+                >
+                  {(rule) => (
+                    <li
+                      onClick={() => selectRule(rule.id)}
+                      class="grid grid-cols-[20px_minmax(0,1fr)_64px_52px_56px] gap-2 items-center rounded-xl border px-2 py-1.5 text-[11px] cursor-pointer transition-all"
+                      classList={{
+                        "border-primary/40 bg-primary/4":
+                          rule.id === selectedRule().id,
+                        "border-border/60 hover:bg-muted/20":
+                          rule.id !== selectedRule().id,
+                        "opacity-50": !rule.enabled,
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onClick={(event) => event.stopPropagation()}
+                        onChange={() => toggleRuleEnabled(rule.id)}
+                        title="Enabled"
+                      />
+                      <span class="truncate font-semibold text-foreground/80">
+                        {rule.name || "Untitled rule"}
+                      </span>
+                      <span class="text-muted-foreground">{rule.kind}</span>
+                      <span class="font-mono text-muted-foreground">
+                        {splitExclusions(scopeEntries(rule)).domains.length ||
+                          "all"}
+                      </span>
+                      <span class="font-mono text-muted-foreground">
+                        {rule.kind === "headers" ? countHeaders(rule) : "–"}
+                      </span>
+                    </li>
+                  )}
+                </For>
+              </ul>
+              <Show when={ruleSort().key !== "order"}>
+                <button
+                  onClick={() =>
+                    setRuleSort({ key: "order", descending: false })
+                  }
+                  class={smallButtonClass}
+                >
+                  Original order
+                </button>
+              </Show>
+            </Section>
+
+            <div class="space-y-4">
+              <div class="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={selectedRule().name}
+                  onInput={(event) =>
+                    updateSelectedRule({ name: event.currentTarget.value })
+                  }
+                  placeholder="Rule name"
+                  class={`flex-1 font-semibold ${inputClass}`}
+                />
+                <span class="font-mono text-[11px] text-muted-foreground">
+                  #{selectedRule().id}
+                </span>
+              </div>
+
+              {/* Header 区域 */}
+              <Show
+                when={selectedRule().kind === "headers"}
+                fallback={
+                  <p class="rounded-xl border border-border/60 bg-muted/4 px-3 py-2 text-[11px] text-muted-foreground">
+                    This is a {selectedRule().kind} rule; its action is edited
+                    in the popup. The scope below applies as usual.
+                  </p>
+                }
+              >
+                <Section
+                  title="Headers"
+                  actions={
+                    <ModeSwitch
+                      mode={headerMode()}
+                      onChange={switchHeaderMode}
+                    />
+                  }
+                >
+                  <Show
+                    when={headerMode() === "table"}
+                    fallback={
+                      <div class="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <For each={["request", "response"] as HeaderTarget[]}>
+                          {(target) => (
+                            <div class="space-y-1">
+                              <p class="text-[10px] font-bold text-muted-foreground capitalize">
+                                {target} headers
+                              </p>
+                              <textarea
+                                value={headerText()[target]}
+                                onInput={(event) =>
+                                  updateHeaderText(
+                                    target,
+                                    event.currentTarget.value,
+                                  )
+                                }
+                                placeholder={
+                                  "X-Api-Key: {{TOKEN}}\n+Accept-Language: fr\n-Cookie"
+                                }
+                                rows={14}
+                                spellcheck={false}
+                                class={textareaClass}
+                              />
+                              <Show when={headerTextErrors()[target]}>
+                                {(error) => (
+                                  <p class="text-[10px] font-semibold text-destructive">
+                                    {error()}
+                                  </p>
+                                )}
+                              </Show>
+                            </div>
+                          )}
+                        </For>
+                        <p class="md:col-span-2 text-[10px] text-muted-foreground/60 leading-relaxed">
+                          One <code>Key: Value</code> per line. Prefix + to
+                          append and - to remove a header; lines starting with #
+                          are ignored. Secret values stay masked and keep their
+                          value unless replaced.
+                        </p>
+                      </div>
+                    }
+                  >
+                    <div class="flex items-center gap-2">
+                      <input
+                        type="search"
+                        value={headerFilter()}
+                        onInput={(event) =>
+                          setHeaderFilter(event.currentTarget.value)
+                        }
+                        placeholder="Filter by key or value"
+                        class={`flex-1 ${inputClass}`}
+                      />
+                      <Show
+                        when={
+                          headerFilter().trim() !== "" &&
+                          headerRows().length > 0
+                        }
+                      >
+                        <button
+                          onClick={() => removeHeaders(headerRows())}
+                          class={smallButtonClass}
+                        >
+                          Remove {headerRows().length} shown
+                        </button>
+                      </Show>
+                    </div>
+                    <div class="grid grid-cols-[76px_84px_minmax(0,1fr)_minmax(0,1.5fr)_28px] gap-2 px-1">
+                      <SortHeader
+                        label="Target"
+                        sortKey={"target" as HeaderSortKey}
+                        sort={headerSort()}
+                        onSort={sortHeaders}
+                      />
+                      <SortHeader
+                        label="Operation"
+                        sortKey={"operation" as HeaderSortKey}
+                        sort={headerSort()}
+                        onSort={sortHeaders}
+                      />
+                      <SortHeader
+                        label="Key"
+                        sortKey={"key" as HeaderSortKey}
+                        sort={headerSort()}
+                        onSort={sortHeaders}
+                      />
+                      <SortHeader
+                        label="Value"
+                        sortKey={"value" as HeaderSortKey}
+                        sort={headerSort()}
+                        onSort={sortHeaders}
+                      />
+                    </div>
+                    <div class="space-y-1 max-h-[50vh] overflow-y-auto">
+                      <For each={headerRows()}>
+                        {(header) => (
+                          <div class="grid grid-cols-[76px_84px_minmax(0,1fr)_minmax(0,1.5fr)_28px] gap-2 items-center">
+                            <span class="text-[10px] font-semibold text-muted-foreground px-1">
+                              {targetOf(header)}
+                            </span>
+                            <select
+                              onChange={(event) =>
+                                updateHeaderOperation(
+                                  header,
+                                  event.currentTarget.value as HeaderOperation,
+                                )
+                              }
+                              class="rounded-lg border border-border/60 bg-muted/4 px-1.5 py-1 text-[11px] font-bold text-muted-foreground focus:outline-none custom-focus"
+                            >
+                              <For each={HEADER_OPERATIONS}>
+                                {(operation) => (
+                                  <option
+                                    value={operation}
+                                    selected={operation === header.operation}
+                                  >
+                                    {operation}
+                                  </option>
+                                )}
+                              </For>
+                            </select>
+                            <input
+                              type="text"
+                              value={header.key}
+                              onInput={(event) =>
+                                updateHeaderField(
+                                  header,
+                                  "key",
+                                  event.currentTarget.value,
+                                )
+                              }
+                              placeholder="Key"
+                              class={`min-w-0 font-semibold ${inputClass}`}
+                            />
+                            <input
+                              type={header.secret ? "password" : "text"}
+                              value={header.value}
+                              onInput={(event) =>
+                                updateHeaderField(
+                                  header,
+                                  "value",
+                                  event.currentTarget.value,
+                                )
+                              }
+                              disabled={
+                                header.operation === "remove" || !!header.sealed
+                              }
+                              placeholder={
+                                header.operation === "remove"
+                                  ? "(removed)"
+                                  : header.sealed
+                                    ? "Locked"
+                                    : "Value"
+                              }
+                              autocomplete="off"
+                              class={`min-w-0 disabled:cursor-not-allowed ${inputClass}`}
+                            />
+                            <button
+                              onClick={() => removeHeaders([header])}
+                              class="inline-flex items-center justify-center rounded-lg h-7 w-7 text-muted-foreground/40 hover:text-destructive hover:bg-destructive/8 transition-all custom-focus"
+                              title="Remove header"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        )}
+                      </For>
+                    </div>
+                    <div class="flex gap-1.5">
+                      <button
+                        onClick={() => addHeader("request")}
+                        class={smallButtonClass}
+                      >
+                        Add request header
+                      </button>
+                      <button
+                        onClick={() => addHeader("response")}
+                        class={smallButtonClass}
+                      >
+                        Add response header
+                      </button>
+                    </div>
+                  </Show>
+                </Section>
+              </Show>
+
+              {/* Scope 区域 */}
+              <Section
+                title={`Scope (${scopeEntries(selectedRule()).length})`}
+                actions={
+                  <>
+                    <select
+                      onChange={(event) =>
+                        updateSelectedRule({
+                          domainMatchMode: event.currentTarget
+                            .value as DomainMatchMode,
+                        })
+                      }
+                      class="h-6 rounded-lg border border-border/60 bg-muted/4 px-1.5 text-[10px] font-bold text-muted-foreground focus:outline-none custom-focus"
+                      title="Match mode"
+                    >
+                      <For each={DOMAIN_MATCH_MODES}>
+                        {(item) => (
+                          <option
+                            value={item.mode}
+                            selected={
+                              item.mode === selectedRule().domainMatchMode
+                            }
+                          >
+                            {item.label}
+                          </option>
+                        )}
+                      </For>
+                    </select>
+                    <ModeSwitch mode={scopeMode()} onChange={setScopeMode} />
+                  </>
+                }
+              >
+                <Show
+                  when={scopeMode() === "table"}
+                  fallback={
+                    <div class="space-y-1">
+                      <textarea
+                        value={selectedRule().domainInput}
+                        onInput={(event) =>
+                          updateSelectedRule({
+                            domainInput: event.currentTarget.value,
+                          })
+                        }
+                        placeholder={
+                          selectedRule().domainMatchMode === "regex"
+                            ? "^https://api\\.example\\.com/v[0-9]+/"
+                            : "example.com\napi.example.com/v2/*\n!status.example.com"
+                        }
+                        rows={12}
+                        spellcheck={false}
+                        class={textareaClass}
+                      />
+                      <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+                        One entry per line
+                        {selectedRule().domainMatchMode === "regex"
+                          ? ""
+                          : " or comma"}
+                        ; prefix ! to exclude. Empty means all sites for header
+                        rules.
+                      </p>
+                    </div>
+                  }
+                >
+                  <div class="flex items-center gap-2">
+                    <input
+                      type="search"
+                      value={scopeFilter()}
+                      onInput={(event) =>
+                        setScopeFilter(event.currentTarget.value)
+                      }
+                      placeholder="Filter entries"
+                      class={`flex-1 ${inputClass}`}
+                    />
+                    <Show
+                      when={
+                        scopeFilter().trim() !== "" && scopeRows().length > 0
+                      }
+                    >
+                      <button
+                        onClick={() => removeScopeRows(scopeRows())}
+                        class={smallButtonClass}
+                      >
+                        Remove {scopeRows().length} shown
+                      </button>
+                    </Show>
+                  </div>
+                  <div class="grid grid-cols-[minmax(0,1fr)_76px_28px] gap-2 px-1">
+                    <SortHeader
+                      label="Entry"
+                      sortKey={"entry" as ScopeSortKey}
+                      sort={scopeSort()}
+                      onSort={toggleScopeSort}
+                    />
+                    <SortHeader
+                      label="Type"
+                      sortKey={"type" as ScopeSortKey}
+                      sort={scopeSort()}
+                      onSort={toggleScopeSort}
+                    />
+                  </div>
+                  <ul class="space-y-1 max-h-[40vh] overflow-y-auto">
+                    <For
+                      each={scopeRows()}
+                      fallback={
+                        <li class="px-1 py-1 text-[11px] text-muted-foreground">
+                          {scopeFilter().trim() === ""
+                            ? "No entries: header rules apply to all sites."
+                            : "No entries match the filter."}
+                        </li>
+                      }
+                    >
+                      {(row) => (
+                        <li class="grid grid-cols-[minmax(0,1fr)_76px_28px] gap-2 items-center">
+                          <span
+                            class="truncate rounded-lg border px-2.5 py-1 font-mono text-[11px]"
+                            classList={{
+                              "border-destructive/40 bg-destructive/5 text-destructive":
+                                row.error !== null,
+                              "border-border/60 bg-muted/4 text-foreground/80":
+                                row.error === null,
+                            }}
+                            title={row.error ?? row.entry}
+                          >
+                            {row.entry}
+                          </span>
+                          <button
+                            onClick={() => toggleScopeExcluded(row)}
+                            class={smallButtonClass}
+                            title="Switch between include and exclude"
+                          >
+                            {row.excluded ? "Exclude" : "Include"}
+                          </button>
+                          <button
+                            onClick={() => removeScopeRows([row])}
+                            class="inline-flex items-center justify-center rounded-lg h-7 w-7 text-muted-foreground/40 hover:text-destructive hover:bg-destructive/8 transition-all custom-focus"
+                            title="Remove entry"
+                          >
+                            ×
+                          </button>
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                  <div class="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={newScopeEntry()}
+                      onInput={(event) =>
+                        setNewScopeEntry(event.currentTarget.value)
+                      }
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                          addScopeEntry();
+                        }
+                      }}
+                      placeholder={
+                        selectedRule().domainMatchMode === "regex"
+                          ? "^https://api\\.example\\.com/"
+                          : "api.example.com"
+                      }
+                      class={`flex-1 font-mono ${inputClass}`}
+                    />
+                    <label class="flex items-center gap-1.5 text-[11px] font-semibold text-muted-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={newScopeExcluded()}
+                        onChange={(event) =>
+                          setNewScopeExcluded(event.currentTarget.checked)
+                        }
+                      />
+                      Exclude
+                    </label>
+                    <button
+                      onClick={addScopeEntry}
+                      disabled={newScopeEntry().trim() === ""}
+                      class={smallButtonClass}
+                    >
+                      Add
+                    </button>
+                  </div>
+                </Show>
+              </Section>
+            </div>
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+}
+
+export default OptionsPage;
@@ -0,0 +1,205 @@
+import { createSignal, onCleanup, onMount, Show } from "solid-js";
+import { SECRET_ENCRYPTION_KEY, SECRET_KEY_SESSION_KEY } from "./lib/config.ts";
+import { sessionGet, storageGet } from "./lib/chrome.ts";
+import { sendMessage, type WorkerMessage } from "./lib/messages.ts";
+import { readSecretEncryption } from "./lib/secrets.ts";
+
+export type SecretsChange = "encrypted" | "unlocked" | "locked" | "decrypted";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Manages the optional passphrase that encrypts secret header values at
+ * rest. The derived key stays in session storage, so secrets lock again
+ * whenever the browser closes.
+ */
+function SecretsPanel(props: {
+  secretCount: number;
+  onChange: (change: SecretsChange) => void;
+  onError: (message: string) => void;
+}) {
+  const [hasPassphrase, setHasPassphrase] = createSignal(false);
+  const [unlocked, setUnlocked] = createSignal(false);
+  const [passphrase, setPassphrase] = createSignal("");
+  const [busy, setBusy] = createSignal(false);
+
+  const run = async (message: WorkerMessage, change: SecretsChange) => {
+    setBusy(true);
+    try {
+      await sendMessage(message);
+      setPassphrase("");
+      props.onChange(change);
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to update secrets.",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const encrypt = () => {
+    if (passphrase().length < MIN_PASSPHRASE_LENGTH) {
+      props.onError(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+      );
+      return;
+    }
+    void run({ type: "setPassphrase", passphrase: passphrase() }, "encrypted");
+  };
+
+  const submit = () => {
+    if (!hasPassphrase()) {
+      encrypt();
+    } else if (!unlocked()) {
+      void run({ type: "unlockSecrets", passphrase: passphrase() }, "unlocked");
+    }
+  };
+
+  onMount(() => {
+    if (typeof chrome === "undefined" || !chrome.storage?.session) {
+      return;
+    }
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName === "local" && changes[SECRET_ENCRYPTION_KEY]) {
+        setHasPassphrase(
+          readSecretEncryption(changes[SECRET_ENCRYPTION_KEY].newValue) !==
+            null,
+        );
+      }
+      if (areaName === "session" && changes[SECRET_KEY_SESSION_KEY]) {
+        setUnlocked(
+          typeof changes[SECRET_KEY_SESSION_KEY].newValue === "string",
+        );
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    onCleanup(() => chrome.storage.onChanged.removeListener(handleChange));
+
+    Promise.all([
+      storageGet([SECRET_ENCRYPTION_KEY]),
+      sessionGet([SECRET_KEY_SESSION_KEY]),
+    ])
+      .then(([stored, session]) => {
+        setHasPassphrase(
+          readSecretEncryption(stored.secretEncryption) !== null,
+        );
+        setUnlocked(typeof session[SECRET_KEY_SESSION_KEY] === "string");
+      })
+      .catch((error: unknown) =>
+        props.onError(
+          error instanceof Error ? error.message : "Failed to read secrets.",
+        ),
+      );
+  });
+
+  return (
+    <Show when={props.secretCount > 0 || hasPassphrase()}>
+      <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+        <div class="flex items-center justify-between">
+          <div class="flex items-center gap-2">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="12"
+              height="12"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2.5"
+              stroke-linecap="round"
+              stroke-linejoin="round"
+              class="text-muted-foreground"
+            >
+              <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+              <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+            </svg>
+            <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+              Secrets
+            </h2>
+          </div>
+          <span
+            class="text-[9px] rounded-md px-1.5 py-0.5 font-extrabold tracking-wider border"
+            classList={{
+              "bg-muted/40 text-muted-foreground border-border/60":
+                !hasPassphrase(),
+              "bg-amber-500/10 text-amber-600 border-amber-500/30":
+                hasPassphrase() && !unlocked(),
+              "bg-emerald-500/10 text-emerald-600 border-emerald-500/30":
+                hasPassphrase() && unlocked(),
+            }}
+          >
+            {!hasPassphrase()
+              ? "NOT ENCRYPTED"
+              : unlocked()
+                ? "UNLOCKED"
+                : "LOCKED"}
+          </span>
+        </div>
+        <Show
+          when={!hasPassphrase() || !unlocked()}
+          fallback={
+            <div class="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => void run({ type: "lockSecrets" }, "locked")}
+                disabled={busy()}
+                class="h-7 rounded-lg text-[10px] font-bold bg-muted/40 text-foreground/80 hover:bg-muted/60 border border-border/50 transition-all custom-focus disabled:opacity-50"
+                title="Stop sending secret headers until unlocked again"
+              >
+                Lock Now
+              </button>
+              <button
+                onClick={() =>
+                  void run({ type: "removePassphrase" }, "decrypted")
+                }
+                disabled={busy()}
+                class="h-7 rounded-lg text-[10px] font-bold text-destructive hover:bg-destructive/10 border border-destructive/30 transition-all custom-focus disabled:opacity-50"
+                title="Store secret values unencrypted again"
+              >
+                Remove Passphrase
+              </button>
+            </div>
+          }
+        >
+          <div class="flex items-center gap-1.5">
+            <input
+              type="password"
+              value={passphrase()}
+              onInput={(event) => setPassphrase(event.currentTarget.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  submit();
+                }
+              }}
+              placeholder={hasPassphrase() ? "Passphrase" : "New passphrase"}
+              autocomplete={
+                hasPassphrase() ? "current-password" : "new-password"
+              }
+              class="flex-1 min-w-0 rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[12px] focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+            />
+            <button
+              onClick={submit}
+              disabled={busy() || passphrase() === ""}
+              class="h-7 rounded-lg px-2 text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+            >
+              {hasPassphrase() ? "Unlock" : "Encrypt"}
+            </button>
+          </div>
+        </Show>
+        <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+          {!hasPassphrase()
+            ? "Secret values are masked and left out of exports, but stored unencrypted. A passphrase encrypts them in storage."
+            : unlocked()
+              ? "Unlocked until the browser closes. There is no way to recover a forgotten passphrase."
+              : "Secret headers are not sent until you unlock them with your passphrase."}
+        </p>
+      </section>
+    </Show>
+  );
+}
+
+export default SecretsPanel;
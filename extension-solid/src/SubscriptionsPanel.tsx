@@ -0,0 +1,316 @@
+import { createSignal, onCleanup, onMount, For, Show } from "solid-js";
+import { describeRule } from "./ImportPanel.tsx";
+import {
+  SUBSCRIPTION_STATE_KEY,
+  SUBSCRIPTIONS_KEY,
+  readSubscriptionState,
+  readSubscriptions,
+  type SubscriptionConfig,
+  type SubscriptionState,
+} from "./lib/config.ts";
+import { storageGet } from "./lib/chrome.ts";
+import { sendMessage } from "./lib/messages.ts";
+
+function formatSyncTime(time: number) {
+  return new Date(time).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+function describeState(state: SubscriptionState | undefined) {
+  if (!state || state.lastAttemptAt === null) {
+    return "Not synced yet";
+  }
+
+  const ruleCount = state.profiles.reduce(
+    (count, profile) => count + profile.rules.length,
+    0,
+  );
+  const synced =
+    state.lastSyncAt === null
+      ? "never synced"
+      : `synced ${formatSyncTime(state.lastSyncAt)} · ${ruleCount} rule${ruleCount === 1 ? "" : "s"}`;
+  return state.lastError === null ? `Last ${synced}` : `Failed; last ${synced}`;
+}
+
+/**
+ * Lists remote config URLs whose active profiles the background worker
+ * polls and applies next to the local profiles. Subscribed rules are
+ * read-only here; they change only when the remote config does.
+ */
+function SubscriptionsPanel(props: { onError: (message: string) => void }) {
+  const [subscriptions, setSubscriptions] = createSignal<SubscriptionConfig[]>(
+    [],
+  );
+  const [states, setStates] = createSignal<Record<string, SubscriptionState>>(
+    {},
+  );
+  const [urlInput, setUrlInput] = createSignal("");
+  const [busy, setBusy] = createSignal(false);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      props.onError(error instanceof Error ? error.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (next: SubscriptionConfig[]) =>
+    run(
+      () => sendMessage({ type: "setSubscriptions", subscriptions: next }),
+      "Failed to update subscriptions.",
+    );
+
+  const add = async () => {
+    const url = urlInput().trim();
+    try {
+      const { protocol } = new URL(url);
+      if (protocol !== "http:" && protocol !== "https:") {
+        throw new Error();
+      }
+    } catch {
+      props.onError("Enter an http or https URL to subscribe to.");
+      return;
+    }
+    if (subscriptions().some((subscription) => subscription.url === url)) {
+      props.onError("Already subscribed to this URL.");
+      return;
+    }
+
+    await save([
+      ...subscriptions(),
+      { id: crypto.randomUUID(), url, enabled: true },
+    ]);
+    setUrlInput("");
+  };
+
+  const toggle = (id: string) =>
+    save(
+      subscriptions().map((subscription) =>
+        subscription.id === id
+          ? { ...subscription, enabled: !subscription.enabled }
+          : subscription,
+      ),
+    );
+
+  const remove = (id: string) =>
+    save(subscriptions().filter((subscription) => subscription.id !== id));
+
+  const syncNow = () =>
+    run(
+      () => sendMessage({ type: "syncSubscriptions" }),
+      "Failed to sync subscriptions.",
+    );
+
+  onMount(() => {
+    if (typeof chrome === "undefined" || !chrome.storage) {
+      return;
+    }
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName !== "local") {
+        return;
+      }
+      if (changes[SUBSCRIPTIONS_KEY]) {
+        setSubscriptions(
+          readSubscriptions(changes[SUBSCRIPTIONS_KEY].newValue),
+        );
+      }
+      if (changes[SUBSCRIPTION_STATE_KEY]) {
+        setStates(
+          readSubscriptionState(changes[SUBSCRIPTION_STATE_KEY].newValue),
+        );
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    onCleanup(() => chrome.storage.onChanged.removeListener(handleChange));
+
+    storageGet([SUBSCRIPTIONS_KEY, SUBSCRIPTION_STATE_KEY])
+      .then((result) => {
+        setSubscriptions(readSubscriptions(result.subscriptions));
+        setStates(readSubscriptionState(result.subscriptionState));
+      })
+      .catch((error: unknown) =>
+        props.onError(
+          error instanceof Error
+            ? error.message
+            : "Failed to read subscriptions.",
+        ),
+      );
+  });
+
+  return (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <path d="M4 11a9 9 0 0 1 9 9" />
+            <path d="M4 4a16 16 0 0 1 16 16" />
+            <circle cx="5" cy="19" r="1" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            Subscriptions
+          </h2>
+        </div>
+        <Show when={subscriptions().length > 0}>
+          <button
+            onClick={() => void syncNow()}
+            disabled={busy()}
+            class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:bg-muted/60 hover:text-foreground/80 border border-border/50 transition-all custom-focus disabled:opacity-50"
+          >
+            {busy() ? "Syncing…" : "Sync Now"}
+          </button>
+        </Show>
+      </div>
+      <For each={subscriptions()}>
+        {(subscription) => {
+          const state = () => states()[subscription.id];
+          return (
+            <div class="rounded-xl border border-border/60 bg-muted/4 px-2.5 py-1.5 space-y-1 animate-slide-up">
+              <div class="flex items-center gap-1.5">
+                <button
+                  onClick={() => void toggle(subscription.id)}
+                  disabled={busy()}
+                  class="h-3.5 w-3.5 shrink-0 inline-flex items-center justify-center rounded-full custom-focus"
+                  title={
+                    subscription.enabled
+                      ? "Pause subscription"
+                      : "Resume subscription"
+                  }
+                >
+                  <span
+                    class="h-2 w-2 rounded-full"
+                    classList={{
+                      "bg-emerald-500": subscription.enabled,
+                      "bg-slate-300": !subscription.enabled,
+                    }}
+                  />
+                </button>
+                <p
+                  class="flex-1 min-w-0 truncate font-mono text-[10px] font-semibold text-foreground/80"
+                  title={subscription.url}
+                >
+                  {subscription.url}
+                </p>
+                <button
+                  onClick={() => void remove(subscription.id)}
+                  disabled={busy()}
+                  class="inline-flex items-center justify-center rounded-lg text-muted-foreground/40 hover:text-destructive hover:bg-destructive/10 h-6 w-6 transition-all shrink-0 custom-focus"
+                  title="Unsubscribe"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="11"
+                    height="11"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    stroke-width="2.5"
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                  >
+                    <path d="M18 6 6 18" />
+                    <path d="m6 6 12 12" />
+                  </svg>
+                </button>
+              </div>
+              <p
+                class="text-[10px]"
+                classList={{
+                  "text-destructive": Boolean(state()?.lastError),
+                  "text-muted-foreground": !state()?.lastError,
+                }}
+              >
+                {describeState(state())}
+              </p>
+              <Show when={state()?.lastError}>
+                {(error) => (
+                  <p class="text-[10px] leading-snug text-destructive/80 break-words">
+                    {error()}
+                  </p>
+                )}
+              </Show>
+              <Show when={(state()?.profiles.length ?? 0) > 0}>
+                <details>
+                  <summary class="cursor-pointer list-none text-[10px] font-bold text-muted-foreground hover:text-foreground/70">
+                    {state()?.profiles.length} read-only profile
+                    {state()?.profiles.length === 1 ? "" : "s"}
+                  </summary>
+                  <ul class="pt-1 space-y-1">
+                    <For each={state()?.profiles}>
+                      {(profile) => (
+                        <li class="space-y-0.5">
+                          <p class="truncate text-[10px] font-semibold text-foreground/70">
+                            {profile.name}
+                          </p>
+                          <For each={profile.rules}>
+                            {(rule) => (
+                              <p class="truncate text-[10px] text-muted-foreground">
+                                {describeRule(rule)}
+                              </p>
+                            )}
+                          </For>
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                </details>
+              </Show>
+            </div>
+          );
+        }}
+      </For>
+      <div class="flex items-center gap-1.5">
+        <input
+          type="url"
+          value={urlInput()}
+          onInput={(event) => setUrlInput(event.currentTarget.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              void add();
+            }
+          }}
+          placeholder="https://example.com/headers.json"
+          class="flex-1 min-w-0 rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[11px] font-mono focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+        />
+        <button
+          onClick={() => void add()}
+          disabled={busy() || urlInput().trim() === ""}
+          class="h-7 rounded-lg px-2 text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+        >
+          Subscribe
+        </button>
+      </div>
+      <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+        Active profiles of an exported config at this URL are applied next to
+        yours and refreshed every 30 minutes. They follow the main switch and
+        schedule; a failed sync keeps the last valid copy.
+      </p>
+    </section>
+  );
+}
+
+export default SubscriptionsPanel;
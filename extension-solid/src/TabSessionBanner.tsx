@@ -0,0 +1,128 @@
+import { createMemo, createSignal, onCleanup, onMount, Show } from "solid-js";
+import {
+  TAB_SESSIONS_KEY,
+  readTabSessions,
+  type TabSession,
+} from "./lib/config.ts";
+import { sessionGet } from "./lib/chrome.ts";
+import { sendMessage } from "./lib/messages.ts";
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+/**
+ * Shows the tab-only session rules of the current tab, which live apart
+ * from the persistent global rules edited below.
+ */
+function TabSessionBanner(props: {
+  tabId: number | null;
+  onError: (message: string) => void;
+}) {
+  const [sessions, setSessions] = createSignal<Record<string, TabSession>>({});
+
+  const currentSession = createMemo(() =>
+    props.tabId === null ? undefined : sessions()[props.tabId],
+  );
+  const otherTabCount = createMemo(
+    () =>
+      Object.keys(sessions()).filter((tabId) => tabId !== String(props.tabId))
+        .length,
+  );
+
+  const clear = async () => {
+    if (props.tabId === null) {
+      return;
+    }
+    try {
+      await sendMessage({ type: "clearTab", tabId: props.tabId });
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to clear tab rules.",
+      );
+    }
+  };
+
+  onMount(() => {
+    if (typeof chrome === "undefined" || !chrome.storage?.session) {
+      return;
+    }
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName === "session" && changes[TAB_SESSIONS_KEY]) {
+        setSessions(readTabSessions(changes[TAB_SESSIONS_KEY].newValue));
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    onCleanup(() => chrome.storage.onChanged.removeListener(handleChange));
+
+    sessionGet([TAB_SESSIONS_KEY])
+      .then((result) => setSessions(readTabSessions(result[TAB_SESSIONS_KEY])))
+      .catch((error: unknown) =>
+        props.onError(
+          error instanceof Error ? error.message : "Failed to read tab rules.",
+        ),
+      );
+  });
+
+  return (
+    <Show
+      when={currentSession()}
+      fallback={
+        <Show when={otherTabCount() > 0}>
+          <p class="px-1 text-[10px] text-amber-600/80">
+            Tab-only rules are active in {otherTabCount()} other tab
+            {otherTabCount() === 1 ? "" : "s"}.
+          </p>
+        </Show>
+      }
+    >
+      {(session) => (
+        <section class="rounded-2xl border border-amber-500/40 bg-amber-500/5 shadow-card p-3 space-y-1.5 animate-fade-in">
+          <div class="flex items-center justify-between">
+            <div class="flex items-center gap-2">
+              <span class="text-[9px] rounded-md px-1.5 py-0.5 font-extrabold tracking-wider border bg-amber-500/10 text-amber-600 border-amber-500/30">
+                THIS TAB ONLY
+              </span>
+              <span class="text-[10px] font-semibold text-foreground/70">
+                {session().ruleIds.length} session rule
+                {session().ruleIds.length === 1 ? "" : "s"} since{" "}
+                {formatTime(session().appliedAt)}
+              </span>
+            </div>
+            <button
+              onClick={() => void clear()}
+              class="h-6 rounded-lg px-2 text-[10px] font-bold bg-muted/40 text-muted-foreground hover:text-destructive hover:bg-destructive/10 border border-border/50 transition-all custom-focus"
+            >
+              Clear
+            </button>
+          </div>
+          <p
+            class="truncate text-[10px] text-muted-foreground"
+            title={session().profileNames.join(", ")}
+          >
+            {session().profileNames.join(", ")}
+          </p>
+          <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+            Applied on top of the global rules and removed when the tab closes.
+            <Show when={otherTabCount() > 0}>
+              {" "}
+              Also active in {otherTabCount()} other tab
+              {otherTabCount() === 1 ? "" : "s"}.
+            </Show>
+          </p>
+        </section>
+      )}
+    </Show>
+  );
+}
+
+export default TabSessionBanner;
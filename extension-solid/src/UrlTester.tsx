@@ -0,0 +1,280 @@
+import { createSignal, For, Show } from "solid-js";
+import { REQUEST_METHODS, RESOURCE_TYPES } from "./lib/config.ts";
+import {
+  testRequest,
+  type TestResult,
+  type TestVerdict,
+} from "./lib/matcher.ts";
+
+const VERDICT_LABELS: Record<TestVerdict, string> = {
+  unmatched: "No rule matches",
+  allowed: "Allowed by an exclusion",
+  blocked: "Blocked",
+  redirected: "Redirected",
+  modified: "Headers modified",
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Runs a hypothetical request against the installed rules, via Chrome's
+ * testMatchOutcome when the build is unpacked and the extension's own
+ * matcher otherwise, to show which rules match and the resulting headers.
+ */
+function UrlTester(props: {
+  tabId: number | null;
+  onError: (message: string) => void;
+}) {
+  const [url, setUrl] = createSignal("");
+  const [initiator, setInitiator] = createSignal("");
+  const [type, setType] = createSignal("xmlhttprequest");
+  const [method, setMethod] = createSignal("get");
+  const [result, setResult] = createSignal<TestResult | null>(null);
+  const [testing, setTesting] = createSignal(false);
+
+  const test = async () => {
+    const target = url().trim();
+    const origin = initiator().trim();
+    if (!isHttpUrl(target)) {
+      props.onError("Enter an http or https URL to test.");
+      return;
+    }
+    if (origin !== "" && !isHttpUrl(origin)) {
+      props.onError("Initiator must be an http or https origin.");
+      return;
+    }
+
+    setTesting(true);
+    try {
+      setResult(
+        await testRequest({
+          url: target,
+          initiator: origin === "" ? null : new URL(origin).origin,
+          type: type() as chrome.declarativeNetRequest.ResourceType,
+          method: method() as chrome.declarativeNetRequest.RequestMethod,
+          tabId: props.tabId ?? -1,
+        }),
+      );
+    } catch (error) {
+      props.onError(
+        error instanceof Error ? error.message : "Failed to test the URL.",
+      );
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <section class="rounded-2xl border border-border/80 bg-card shadow-card p-3 space-y-2.5">
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-2">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2.5"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            class="text-muted-foreground"
+          >
+            <circle cx="11" cy="11" r="8" />
+            <path d="m21 21-4.3-4.3" />
+          </svg>
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+            Test a URL
+          </h2>
+        </div>
+        <Show when={result()}>
+          {(current) => (
+            <span
+              class="text-[9px] rounded-md px-1.5 py-0.5 font-extrabold tracking-wider border"
+              classList={{
+                "bg-emerald-500/10 text-emerald-600 border-emerald-500/30":
+                  current().engine === "chrome",
+                "bg-muted/40 text-muted-foreground border-border/60":
+                  current().engine === "extension",
+              }}
+              title={
+                current().engine === "chrome"
+                  ? "Matched by Chrome with testMatchOutcome"
+                  : "Matched by the extension's copy of the DNR matching rules"
+              }
+            >
+              {current().engine === "chrome" ? "CHROME" : "SIMULATED"}
+            </span>
+          )}
+        </Show>
+      </div>
+      <input
+        type="url"
+        value={url()}
+        onInput={(event) => setUrl(event.currentTarget.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            void test();
+          }
+        }}
+        placeholder="https://api.example.com/v1/users"
+        class="w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[11px] font-mono focus:outline-none placeholder:text-muted-foreground/40 custom-focus"
+      />
+      <input
+        type="url"
+        value={initiator()}
+        onInput={(event) => setInitiator(event.currentTarget.value)}
+        placeholder="Initiator origin (optional), e.g. https://app.example.com"
+        class="w-full rounded-xl border border-border/70 bg-muted/4 transition-all px-3 py-1.5 text-[11px] font-mono focus:outline-none placeholder:text-muted-foreground/40 placeholder:font-sans custom-focus"
+      />
+      <div class="grid grid-cols-[1fr_80px_auto] gap-1.5">
+        <select
+          value={type()}
+          onChange={(event) => setType(event.currentTarget.value)}
+          class="rounded-xl border border-border/70 bg-muted/4 px-2 py-1.5 text-[11px] focus:outline-none custom-focus"
+          title="Resource type"
+        >
+          <For each={RESOURCE_TYPES}>
+            {(resourceType) => (
+              <option value={resourceType}>{resourceType}</option>
+            )}
+          </For>
+        </select>
+        <select
+          value={method()}
+          onChange={(event) => setMethod(event.currentTarget.value)}
+          class="rounded-xl border border-border/70 bg-muted/4 px-2 py-1.5 text-[11px] uppercase focus:outline-none custom-focus"
+          title="Request method"
+        >
+          <For each={REQUEST_METHODS}>
+            {(requestMethod) => (
+              <option value={requestMethod}>{requestMethod}</option>
+            )}
+          </For>
+        </select>
+        <button
+          onClick={() => void test()}
+          disabled={testing() || url().trim() === ""}
+          class="h-7.5 rounded-lg px-3 text-[10px] font-bold bg-primary text-primary-foreground shadow-sm shadow-primary/20 transition-all custom-focus disabled:opacity-50"
+        >
+          Test
+        </button>
+      </div>
+      <Show when={result()}>
+        {(current) => (
+          <div class="space-y-2 animate-fade-in">
+            <p
+              class="text-[11px] font-bold"
+              classList={{
+                "text-emerald-600": current().verdict === "modified",
+                "text-destructive": current().verdict === "blocked",
+                "text-amber-600":
+                  current().verdict === "redirected" ||
+                  current().verdict === "allowed",
+                "text-muted-foreground": current().verdict === "unmatched",
+              }}
+            >
+              {VERDICT_LABELS[current().verdict]}
+              <Show when={current().redirectTo}>
+                {(target) => (
+                  <span class="block truncate font-mono text-[10px] font-semibold text-foreground/70">
+                    → {target()}
+                  </span>
+                )}
+              </Show>
+            </p>
+            <Show when={current().headers.length > 0}>
+              <ul class="rounded-xl border border-border/60 bg-muted/4 px-2.5 py-1.5 space-y-0.5">
+                <For each={current().headers}>
+                  {(header) => (
+                    <li class="truncate font-mono text-[10px] text-foreground/80">
+                      <span class="text-muted-foreground">
+                        {header.target === "response" ? "response " : ""}
+                        {header.operation}
+                      </span>{" "}
+                      {header.header}
+                      <Show when={header.value !== null}>: {header.value}</Show>
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+            <Show when={current().matches.length > 0}>
+              <ul class="space-y-1">
+                <For each={current().matches}>
+                  {(match) => (
+                    <li
+                      class="flex items-center gap-1.5 text-[10px]"
+                      classList={{ "opacity-50": !match.applied }}
+                      title={
+                        match.applied
+                          ? "Applied"
+                          : "Matches, but is overridden by a higher-priority rule"
+                      }
+                    >
+                      <span class="font-mono text-muted-foreground shrink-0">
+                        #{match.ruleId}
+                      </span>
+                      <span class="flex-1 min-w-0 truncate font-semibold text-foreground/70">
+                        {match.source}
+                      </span>
+                      <Show when={match.tabOnly}>
+                        <span class="rounded px-1 text-[9px] font-bold bg-amber-500/10 text-amber-600">
+                          TAB
+                        </span>
+                      </Show>
+                      <span class="text-muted-foreground shrink-0">
+                        {match.action} · p{match.priority}
+                      </span>
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+            <Show when={current().unevaluated.length > 0}>
+              <ul class="space-y-1">
+                <For each={current().unevaluated}>
+                  {(rule) => (
+                    <li
+                      class="flex items-center gap-1.5 text-[10px] opacity-50"
+                      title="Its regex uses syntax only Chrome understands, so it was not tested"
+                    >
+                      <span class="font-mono text-muted-foreground shrink-0">
+                        #{rule.ruleId}
+                      </span>
+                      <span class="flex-1 min-w-0 truncate font-semibold text-foreground/70">
+                        {rule.source}
+                      </span>
+                      <Show when={rule.tabOnly}>
+                        <span class="rounded px-1 text-[9px] font-bold bg-amber-500/10 text-amber-600">
+                          TAB
+                        </span>
+                      </Show>
+                      <span class="text-destructive shrink-0">
+                        cannot evaluate
+                      </span>
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+          </div>
+        )}
+      </Show>
+      <p class="text-[10px] text-muted-foreground/60 leading-relaxed">
+        Tests the applied rules, including This Tab rules of the current tab;
+        Save &amp; Apply edits first. Without an initiator, rules limited to
+        initiating sites do not match.
+      </p>
+    </section>
+  );
+}
+
+export default UrlTester;
@@ -0,0 +1,182 @@
+import {
+  ACTIVITY_CURSOR_KEY,
+  ACTIVITY_LOG_KEY,
+  ACTIVITY_SOURCE_KEY,
+  type ActivityEntry,
+  type ActivitySource,
+} from "../lib/activity.ts";
+import {
+  TAB_SESSIONS_KEY,
+  readTabSessions,
+  type RuleIndexEntry,
+} from "../lib/config.ts";
+import {
+  getMatchedRules,
+  getTabUrl,
+  sessionGet,
+  sessionSet,
+  storageGet,
+} from "../lib/chrome.ts";
+
+const ACTIVITY_LOG_LIMIT = 200;
+// onRuleMatchedDebug only exists for unpacked extensions; packed builds fall
+// back to polling getMatchedRules, which reports the tab but not the URL.
+export const hasMatchDebugEvent = Boolean(
+  chrome.declarativeNetRequest.onRuleMatchedDebug,
+);
+
+interface MatchDetails {
+  time: number;
+  url: string;
+  tabId: number;
+  method?: string;
+  type?: string;
+  source: ActivitySource;
+}
+
+let ruleIndex: Record<number, RuleIndexEntry> | null = null;
+// Session rule IDs are separate from dynamic ones, so tab-only rules get
+// their own index.
+let tabRuleIndex: Record<number, RuleIndexEntry> | null = null;
+let activityWriteQueue = Promise.resolve();
+
+async function loadRuleIndex() {
+  if (ruleIndex && tabRuleIndex) {
+    return;
+  }
+  const stored = await storageGet(["ruleIndex"]);
+  ruleIndex = stored.ruleIndex ?? {};
+  const session = await sessionGet([TAB_SESSIONS_KEY]);
+  setTabSessions(session[TAB_SESSIONS_KEY]);
+}
+
+export function setRuleIndex(next: Record<number, RuleIndexEntry> | undefined) {
+  ruleIndex = next ?? {};
+}
+
+export function setTabSessions(value: unknown) {
+  tabRuleIndex = Object.assign(
+    {},
+    ...Object.values(readTabSessions(value)).map(
+      (session) => session.ruleIndex,
+    ),
+  );
+}
+
+// Appends are serialized so bursts of matches cannot overwrite each other.
+function appendActivity(entries: ActivityEntry[]) {
+  if (entries.length === 0) {
+    return;
+  }
+
+  activityWriteQueue = activityWriteQueue
+    .then(async () => {
+      const stored = await sessionGet([ACTIVITY_LOG_KEY]);
+      const log = Array.isArray(stored[ACTIVITY_LOG_KEY])
+        ? (stored[ACTIVITY_LOG_KEY] as ActivityEntry[])
+        : [];
+      await sessionSet({
+        [ACTIVITY_LOG_KEY]: [...log, ...entries].slice(-ACTIVITY_LOG_LIMIT),
+      });
+    })
+    .catch((error: unknown) =>
+      console.error("Failed to write activity log:", error),
+    );
+  return activityWriteQueue;
+}
+
+function createActivityEntry(
+  rule: chrome.declarativeNetRequest.MatchedRule,
+  details: MatchDetails,
+): ActivityEntry {
+  const ruleId = rule.ruleId;
+  const tabOnly =
+    rule.rulesetId === chrome.declarativeNetRequest.SESSION_RULESET_ID;
+  const source = (tabOnly ? tabRuleIndex : ruleIndex)?.[ruleId];
+  return {
+    id: crypto.randomUUID(),
+    time: details.time,
+    url: details.url,
+    tabId: details.tabId,
+    method: details.method ?? null,
+    type: details.type ?? null,
+    ruleId,
+    profileName: source?.profileName ?? null,
+    ruleName: source?.ruleName ?? null,
+    headers: source?.headers ?? [],
+    tabOnly,
+    source: details.source,
+  };
+}
+
+export function recordDebugMatch(
+  info: chrome.declarativeNetRequest.MatchedRuleInfoDebug,
+) {
+  loadRuleIndex()
+    .then(() =>
+      appendActivity([
+        createActivityEntry(info.rule, {
+          time: Date.now(),
+          url: info.request.url,
+          tabId: info.request.tabId,
+          method: info.request.method,
+          type: info.request.type,
+          source: "debug",
+        }),
+      ]),
+    )
+    .catch((error: unknown) =>
+      console.error("Failed to record rule match:", error),
+    );
+}
+
+async function readTabUrl(tabId: number) {
+  if (tabId < 0) {
+    return "(no tab)";
+  }
+  const url = await getTabUrl(tabId).catch(() => null);
+  return url ?? "(closed tab)";
+}
+
+export async function pollMatchedRules() {
+  const stored = await sessionGet([ACTIVITY_CURSOR_KEY]);
+  const cursor = stored[ACTIVITY_CURSOR_KEY];
+  const minTimeStamp = typeof cursor === "number" ? cursor + 1 : 0;
+  const matches = (await getMatchedRules(minTimeStamp)).filter(
+    (info) =>
+      info.rule.rulesetId === chrome.declarativeNetRequest.DYNAMIC_RULESET_ID ||
+      info.rule.rulesetId === chrome.declarativeNetRequest.SESSION_RULESET_ID,
+  );
+  if (matches.length === 0) {
+    return;
+  }
+
+  await loadRuleIndex();
+  const entries = await Promise.all(
+    matches.map(async (info) =>
+      createActivityEntry(info.rule, {
+        time: info.timeStamp,
+        url: await readTabUrl(info.tabId),
+        tabId: info.tabId,
+        source: "matched",
+      }),
+    ),
+  );
+  const latest = Math.max(...matches.map((match) => match.timeStamp));
+  await sessionSet({ [ACTIVITY_CURSOR_KEY]: latest });
+  await appendActivity(entries.sort((a, b) => a.time - b.time));
+}
+
+export function clearActivity() {
+  const cleared = activityWriteQueue.then(() =>
+    sessionSet({ [ACTIVITY_LOG_KEY]: [] }),
+  );
+  activityWriteQueue = cleared.catch(() => undefined);
+  return cleared;
+}
+
+export function publishActivitySource() {
+  sessionSet({
+    [ACTIVITY_SOURCE_KEY]: hasMatchDebugEvent ? "debug" : "matched",
+  }).catch((error: unknown) => console.error(error));
+}
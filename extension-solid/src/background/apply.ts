@@ -0,0 +1,563 @@
+import {
+  ALARM_NAME,
+  CONFIG_STORAGE_KEYS,
+  HISTORY_KEY,
+  LEGACY_STORAGE_KEYS,
+  REFRESH_ALARM_NAME,
+  REFRESH_PERIOD_MINUTES,
+  RULE_TEMPLATES_SESSION_KEY,
+  SECRET_ENCRYPTION_KEY,
+  SECRET_KEY_SESSION_KEY,
+  SCHEDULE_ALARM_NAME,
+  SUBSCRIPTION_ALARM_NAME,
+  SUBSCRIPTION_PERIOD_MINUTES,
+  SUBSCRIPTION_STATE_KEY,
+  SUBSCRIPTIONS_KEY,
+  readAppliedConfig,
+  readRemoteProfiles,
+  readSubscriptionState,
+  readSubscriptions,
+  type AppliedConfig,
+  type HeaderConfig,
+  type Profile,
+  type StoredConfig,
+  type SubscriptionConfig,
+  type SubscriptionState,
+} from "../lib/config.ts";
+import { compileConfig, diffRules, renderRule } from "../lib/rules.ts";
+import { checkRuleQuotas } from "../lib/preview.ts";
+import { summarizeChange } from "../lib/diff.ts";
+import { nextScheduleChange } from "../lib/schedule.ts";
+import {
+  CONFIG_VERSION,
+  CONFIG_VERSION_KEY,
+  formatSchemaError,
+  loadConfig,
+  migrateConfig,
+} from "../lib/schema.ts";
+import {
+  createSecretEncryption,
+  exportSecretKey,
+  readSecretEncryption,
+  readSecretKey,
+  sealProfiles,
+  unlockSecretEncryption,
+  unsealProfiles,
+} from "../lib/secrets.ts";
+import {
+  clearAlarm,
+  createAlarm,
+  getDynamicRules,
+  getSessionRules,
+  storageGet,
+  storageRemove,
+  sessionGet,
+  sessionRemove,
+  sessionSet,
+  storageSet,
+  updateDynamicRules,
+} from "../lib/chrome.ts";
+import { fetchSubscription, isSubscriptionUrl } from "./subscriptions.ts";
+import { recordHistory, updateHistoryProfiles } from "./history.ts";
+import { updateBadge } from "./badge.ts";
+import { hasTabTemplates, refreshTabRules } from "./tabs.ts";
+
+const DERIVED_STORAGE_KEYS = ["ruleIndex"];
+
+// Applies, reconciliations and refreshes run one at a time, so a storage
+// change is never reconciled while the apply that caused it is in flight.
+let taskQueue: Promise<unknown> = Promise.resolve();
+// The config the dynamic rules were last built from, used to skip storage
+// change events caused by our own writes.
+let lastAppliedConfig: string | null = null;
+
+function enqueue<T>(task: () => Promise<T>) {
+  const result = taskQueue.then(task);
+  taskQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function syncDynamicRules(
+  compiledRules: chrome.declarativeNetRequest.Rule[],
+) {
+  const desiredRules = compiledRules.map(renderRule);
+  // Checked up front so an oversized config fails with the limit it
+  // exceeds rather than Chrome's generic error.
+  const { errors } = checkRuleQuotas(desiredRules, await getSessionRules());
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const { removeRuleIds, addRules } = diffRules(
+    await getDynamicRules(),
+    desiredRules,
+  );
+  if (removeRuleIds.length > 0 || addRules.length > 0) {
+    await updateDynamicRules(removeRuleIds, addRules);
+  }
+}
+
+async function syncAlarms(config: AppliedConfig, hasTemplates: boolean) {
+  await clearAlarm(ALARM_NAME);
+  if (config.enabled && config.temporaryUntil !== null) {
+    await createAlarm(ALARM_NAME, { when: config.temporaryUntil });
+  }
+
+  await clearAlarm(SCHEDULE_ALARM_NAME);
+  const nextChange = config.enabled
+    ? nextScheduleChange(config.schedule, Date.now())
+    : null;
+  if (nextChange !== null) {
+    await createAlarm(SCHEDULE_ALARM_NAME, { when: nextChange });
+  }
+
+  await clearAlarm(REFRESH_ALARM_NAME);
+  if (hasTemplates || (await hasTabTemplates())) {
+    await createAlarm(REFRESH_ALARM_NAME, {
+      periodInMinutes: REFRESH_PERIOD_MINUTES,
+    });
+  }
+}
+
+async function restoreStorage(previous: StoredConfig) {
+  const missingKeys = [...CONFIG_STORAGE_KEYS, ...DERIVED_STORAGE_KEYS].filter(
+    (key) => !(key in previous),
+  );
+  if (missingKeys.length > 0) {
+    await storageRemove(missingKeys);
+  }
+  await storageSet(previous);
+}
+
+/** Rebuilds dynamic rules, derived data and alarms from a config. */
+async function reconcile(config: AppliedConfig) {
+  // A temporary session may have ended while the browser was closed.
+  const expired =
+    config.enabled &&
+    config.temporaryUntil !== null &&
+    config.temporaryUntil <= Date.now();
+  const effective = expired
+    ? { ...config, enabled: false, temporaryUntil: null }
+    : config;
+
+  const { compiledRules, ruleIndex, ruleTemplates } = compileConfig(
+    effective,
+    await readStoredRemoteProfiles(),
+  );
+  await syncDynamicRules(compiledRules);
+  lastAppliedConfig = JSON.stringify(effective);
+  await storageSet(
+    expired
+      ? { enabled: false, temporaryUntil: null, ruleIndex }
+      : { ruleIndex },
+  );
+  await sessionSet({ [RULE_TEMPLATES_SESSION_KEY]: ruleTemplates });
+  await syncAlarms(effective, ruleTemplates.length > 0);
+  await updateBadge(effective);
+}
+
+// Secrets are decrypted here when unlocked; locked ones stay sealed and
+// are left out of the compiled rules.
+async function readStoredConfig() {
+  const stored = await storageGet([
+    ...CONFIG_STORAGE_KEYS,
+    ...LEGACY_STORAGE_KEYS,
+  ]);
+  const config = readAppliedConfig(stored as Record<string, unknown>);
+  return {
+    ...config,
+    profiles: await unsealProfiles(config.profiles, await readSecretKey()),
+  };
+}
+
+/** Encrypts secret values for storage when a passphrase is set. */
+async function sealForStorage(profiles: Profile[]) {
+  const stored = await storageGet([SECRET_ENCRYPTION_KEY]);
+  if (!readSecretEncryption(stored.secretEncryption)) {
+    return profiles;
+  }
+
+  const key = await readSecretKey();
+  if (key) {
+    return sealProfiles(profiles, key);
+  }
+  const hasPlaintext = profiles
+    .flatMap((profile) => profile.rules)
+    .flatMap((rule) => [...rule.headers, ...rule.responseHeaders])
+    .some((header) => header.secret && !header.sealed);
+  if (hasPlaintext) {
+    throw new Error("Unlock secrets before saving secret header values.");
+  }
+  return profiles;
+}
+
+async function readStoredRemoteProfiles() {
+  const stored = await storageGet([SUBSCRIPTIONS_KEY, SUBSCRIPTION_STATE_KEY]);
+  return readRemoteProfiles(
+    readSubscriptions(stored.subscriptions),
+    readSubscriptionState(stored.subscriptionState),
+  );
+}
+
+/**
+ * Persists a config from the popup and applies it. Storage is written
+ * first and restored if Chrome rejects the rules, so the two never drift.
+ * `restoredFrom` is the save time of the history entry being restored.
+ */
+export const applyConfig = (config: AppliedConfig, restoredFrom?: number) =>
+  enqueue(async () => {
+    // Re-parsing normalizes the message the same way storage is read back.
+    const normalized = readAppliedConfig({ ...config });
+    const previous = await storageGet([
+      ...CONFIG_STORAGE_KEYS,
+      ...DERIVED_STORAGE_KEYS,
+    ]);
+    const current = await readStoredConfig();
+    const { compiledRules, ruleIndex, ruleTemplates } = compileConfig(
+      normalized,
+      await readStoredRemoteProfiles(),
+    );
+
+    const profiles = await sealForStorage(normalized.profiles);
+    await storageSet({
+      ...normalized,
+      profiles,
+      [CONFIG_VERSION_KEY]: CONFIG_VERSION,
+      ruleIndex,
+    });
+    try {
+      await syncDynamicRules(compiledRules);
+    } catch (error) {
+      await restoreStorage(previous);
+      throw error;
+    }
+
+    lastAppliedConfig = JSON.stringify(normalized);
+    await sessionSet({ [RULE_TEMPLATES_SESSION_KEY]: ruleTemplates });
+    await storageRemove(LEGACY_STORAGE_KEYS);
+    await syncAlarms(normalized, ruleTemplates.length > 0);
+    await updateBadge(normalized);
+
+    const summary = summarizeChange(current, normalized);
+    if (summary) {
+      await recordHistory(
+        restoredFrom === undefined
+          ? summary
+          : `Restored the settings from ${new Date(restoredFrom).toLocaleString()}`,
+        { ...normalized, profiles },
+        readAppliedConfig(previous as Record<string, unknown>),
+      );
+    }
+  });
+
+/**
+ * Applies a change made outside the popup, e.g. by a keyboard command or
+ * the context menu, to the stored config and returns the result. Profiles
+ * are only rewritten when the change touches them, so switching works
+ * while secrets are locked. Only profile edits are kept in the history;
+ * toggles and switches would soon push everything else out of it.
+ */
+export const updateConfig = (
+  change: (config: AppliedConfig) => AppliedConfig,
+) =>
+  enqueue(async () => {
+    const previous = await storageGet([
+      ...CONFIG_STORAGE_KEYS,
+      ...DERIVED_STORAGE_KEYS,
+    ]);
+    const current = await readStoredConfig();
+    const next = change(current);
+    const profiles =
+      next.profiles === current.profiles
+        ? null
+        : await sealForStorage(next.profiles);
+    await storageSet({
+      enabled: next.enabled,
+      temporaryUntil: next.temporaryUntil,
+      activeProfileIds: next.activeProfileIds,
+      ...(profiles && { profiles }),
+    });
+    try {
+      await reconcile(next);
+    } catch (error) {
+      await restoreStorage(previous);
+      throw error;
+    }
+
+    const summary = profiles && summarizeChange(current, next);
+    if (summary) {
+      await recordHistory(
+        summary,
+        { ...next, profiles },
+        readAppliedConfig(previous as Record<string, unknown>),
+      );
+    }
+    return next;
+  });
+
+/** Repairs dynamic rules that drifted from storage. */
+export const reconcileRules = () =>
+  enqueue(async () => reconcile(await readStoredConfig()));
+
+/** Reconciles after an outside storage edit, ignoring our own writes. */
+export const reconcileIfChanged = () =>
+  enqueue(async () => {
+    const config = await readStoredConfig();
+    if (JSON.stringify(config) !== lastAppliedConfig) {
+      await reconcile(config);
+    }
+  });
+
+/**
+ * Migrates the stored config to the current schema version, then
+ * reconciles. Invalid fields are logged and fall back to their defaults.
+ */
+export const initializeStorage = () =>
+  enqueue(async () => {
+    const stored = (await storageGet([
+      ...CONFIG_STORAGE_KEYS,
+      ...LEGACY_STORAGE_KEYS,
+      CONFIG_VERSION_KEY,
+    ])) as Record<string, unknown>;
+    const result = loadConfig(stored);
+    if (!result.ok) {
+      for (const error of result.errors) {
+        console.warn(`Invalid stored config: ${formatSchemaError(error)}`);
+      }
+    }
+
+    const config = result.ok
+      ? result.config
+      : readAppliedConfig(migrateConfig(stored));
+    await storageSet({ ...config, [CONFIG_VERSION_KEY]: CONFIG_VERSION });
+    // Older versions kept the templates, secrets included, in local storage.
+    await storageRemove([...LEGACY_STORAGE_KEYS, RULE_TEMPLATES_SESSION_KEY]);
+    await reconcile(config);
+  });
+
+export const disableByExpiry = () =>
+  enqueue(async () => {
+    const config = await readStoredConfig();
+    const disabled = { ...config, enabled: false, temporaryUntil: null };
+    await storageSet({ enabled: false, temporaryUntil: null });
+    await reconcile(disabled);
+  });
+
+// Swaps in freshly rendered copies of the stored rule templates, for both
+// the persistent rules and any tab-only session rules.
+export const refreshGeneratedRules = () =>
+  enqueue(async () => {
+    const refreshedTabs = await refreshTabRules();
+    const { enabled } = await storageGet(["enabled"]);
+    const session = await sessionGet([RULE_TEMPLATES_SESSION_KEY]);
+    const ruleTemplates = session[RULE_TEMPLATES_SESSION_KEY] as
+      chrome.declarativeNetRequest.Rule[] | undefined;
+    if (!enabled || !ruleTemplates || ruleTemplates.length === 0) {
+      if (!refreshedTabs) {
+        await clearAlarm(REFRESH_ALARM_NAME);
+      }
+      return;
+    }
+
+    await updateDynamicRules(
+      ruleTemplates.map((rule) => rule.id),
+      ruleTemplates.map(renderRule),
+    );
+  });
+
+const createSubscriptionState = (): SubscriptionState => ({
+  lastSyncAt: null,
+  lastAttemptAt: null,
+  lastError: null,
+  profiles: [],
+});
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unexpected sync error.";
+}
+
+/**
+ * Fetches every enabled subscription and applies the results. A failed
+ * fetch keeps that subscription's last valid profiles, and profiles whose
+ * rules Chrome rejects are discarded in favour of the previous ones.
+ */
+export const syncSubscriptions = async () => {
+  const stored = await storageGet([SUBSCRIPTIONS_KEY]);
+  const subscriptions = readSubscriptions(stored.subscriptions).filter(
+    (subscription) => subscription.enabled,
+  );
+  await clearAlarm(SUBSCRIPTION_ALARM_NAME);
+  if (subscriptions.length === 0) {
+    return;
+  }
+  await createAlarm(SUBSCRIPTION_ALARM_NAME, {
+    periodInMinutes: SUBSCRIPTION_PERIOD_MINUTES,
+  });
+
+  // Fetching happens outside the queue so a slow server never holds up
+  // applies from the popup.
+  const results = await Promise.all(
+    subscriptions.map(async ({ id, url }) => {
+      try {
+        return { id, profiles: await fetchSubscription(url), error: null };
+      } catch (error) {
+        return { id, profiles: null, error: errorMessage(error) };
+      }
+    }),
+  );
+
+  await enqueue(async () => {
+    const current = await storageGet([
+      SUBSCRIPTIONS_KEY,
+      SUBSCRIPTION_STATE_KEY,
+    ]);
+    const knownIds = new Set(
+      readSubscriptions(current.subscriptions).map(
+        (subscription) => subscription.id,
+      ),
+    );
+    const previous = readSubscriptionState(current.subscriptionState);
+    const now = Date.now();
+    const next = { ...previous };
+    for (const { id, profiles, error } of results) {
+      // The subscription may have been removed while it was fetched.
+      if (!knownIds.has(id)) {
+        continue;
+      }
+      const state = previous[id] ?? createSubscriptionState();
+      next[id] = profiles
+        ? { lastSyncAt: now, lastAttemptAt: now, lastError: null, profiles }
+        : { ...state, lastAttemptAt: now, lastError: error };
+    }
+
+    await storageSet({ subscriptionState: next });
+    try {
+      await reconcile(await readStoredConfig());
+    } catch (error) {
+      const rejected = { ...next };
+      for (const { id, profiles } of results) {
+        if (profiles && knownIds.has(id)) {
+          rejected[id] = {
+            ...(previous[id] ?? createSubscriptionState()),
+            lastAttemptAt: now,
+            lastError: `Rules rejected: ${errorMessage(error)}`,
+          };
+        }
+      }
+      await storageSet({ subscriptionState: rejected });
+      await reconcile(await readStoredConfig());
+    }
+  });
+};
+
+/**
+ * Replaces the subscription list from the popup, drops the state of
+ * removed subscriptions and re-applies before syncing the rest.
+ */
+export const setSubscriptions = async (subscriptions: SubscriptionConfig[]) => {
+  const normalized = readSubscriptions(subscriptions);
+  const invalid = normalized.find(
+    (subscription) => !isSubscriptionUrl(subscription.url),
+  );
+  if (invalid) {
+    throw new Error(`Invalid subscription URL: ${invalid.url}`);
+  }
+
+  await enqueue(async () => {
+    const stored = await storageGet([SUBSCRIPTION_STATE_KEY]);
+    const state = readSubscriptionState(stored.subscriptionState);
+    await storageSet({
+      subscriptions: normalized,
+      subscriptionState: Object.fromEntries(
+        normalized.flatMap(({ id }) => (state[id] ? [[id, state[id]]] : [])),
+      ),
+    });
+    await reconcile(await readStoredConfig());
+  });
+  await syncSubscriptions();
+};
+
+/** Encrypts the stored secret header values with a new passphrase. */
+export const setSecretPassphrase = (passphrase: string) =>
+  enqueue(async () => {
+    const stored = await storageGet([SECRET_ENCRYPTION_KEY]);
+    if (readSecretEncryption(stored.secretEncryption)) {
+      throw new Error("A passphrase is already set.");
+    }
+
+    const config = await readStoredConfig();
+    const { encryption, key } = await createSecretEncryption(passphrase);
+    await sessionSet({ [SECRET_KEY_SESSION_KEY]: await exportSecretKey(key) });
+    await storageSet({
+      secretEncryption: encryption,
+      profiles: await sealProfiles(config.profiles, key),
+    });
+    await updateHistoryProfiles((profiles) => sealProfiles(profiles, key));
+  });
+
+/** Unlocks secrets until the browser closes and applies them. */
+export const unlockSecrets = (passphrase: string) =>
+  enqueue(async () => {
+    const stored = await storageGet([SECRET_ENCRYPTION_KEY]);
+    const encryption = readSecretEncryption(stored.secretEncryption);
+    if (!encryption) {
+      throw new Error("No passphrase is set.");
+    }
+
+    const key = await unlockSecretEncryption(encryption, passphrase);
+    await sessionSet({ [SECRET_KEY_SESSION_KEY]: await exportSecretKey(key) });
+    await reconcile(await readStoredConfig());
+  });
+
+/** Forgets the unlocked key, which drops secret headers from the rules. */
+export const lockSecrets = () =>
+  enqueue(async () => {
+    await sessionRemove([SECRET_KEY_SESSION_KEY]);
+    await reconcile(await readStoredConfig());
+  });
+
+/**
+ * Stores secrets as plaintext again. Values sealed with a key other than
+ * the unlocked one cannot be recovered and are cleared.
+ */
+export const removeSecretPassphrase = () =>
+  enqueue(async () => {
+    const key = await readSecretKey();
+    if (!key) {
+      throw new Error("Unlock secrets before removing the passphrase.");
+    }
+
+    const config = await readStoredConfig();
+    const clearSealed = (headers: HeaderConfig[]) =>
+      headers.map((header) =>
+        header.sealed
+          ? {
+              key: header.key,
+              value: "",
+              operation: header.operation,
+              secret: true,
+            }
+          : header,
+      );
+    const clearProfiles = (profiles: Profile[]) =>
+      profiles.map((profile) => ({
+        ...profile,
+        rules: profile.rules.map((rule) => ({
+          ...rule,
+          headers: clearSealed(rule.headers),
+          responseHeaders: clearSealed(rule.responseHeaders),
+        })),
+      }));
+    await storageSet({ profiles: clearProfiles(config.profiles) });
+    await updateHistoryProfiles(async (profiles) =>
+      clearProfiles(await unsealProfiles(profiles, key)),
+    );
+    await storageRemove([SECRET_ENCRYPTION_KEY]);
+    await sessionRemove([SECRET_KEY_SESSION_KEY]);
+  });
+
+/** Forgets every history entry; the applied config is left alone. */
+export const clearHistory = () =>
+  enqueue(async () => {
+    await storageRemove([HISTORY_KEY]);
+  });
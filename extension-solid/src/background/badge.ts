@@ -0,0 +1,71 @@
+import type { AppliedConfig } from "../lib/config.ts";
+import { setActionBadge } from "../lib/chrome.ts";
+import { isScheduleActive } from "../lib/schedule.ts";
+
+const EXTENSION_NAME = "HTTP Header Modifier";
+const IDLE_COLOR = "#94a3b8";
+const FLASH_COLOR = "#2563eb";
+export const ERROR_COLOR = "#dc2626";
+const FLASH_DURATION_MS = 2_500;
+
+// The config the state badge was last drawn for, restored after a flash.
+let badgeConfig: AppliedConfig | null = null;
+let flashTimer: ReturnType<typeof setTimeout> | undefined;
+
+function describeState(config: AppliedConfig) {
+  const names = config.profiles
+    .filter((profile) => config.activeProfileIds.includes(profile.id))
+    .map((profile) => profile.name);
+  const profiles = names.length > 0 ? names.join(", ") : "no profile";
+
+  if (!config.enabled) {
+    return { text: "OFF", color: IDLE_COLOR, title: "Rules are off" };
+  }
+  if (!isScheduleActive(config.schedule, Date.now())) {
+    return {
+      text: "IDLE",
+      color: IDLE_COLOR,
+      title: `Outside the schedule · ${profiles}`,
+    };
+  }
+  if (config.temporaryUntil !== null) {
+    const until = new Date(config.temporaryUntil).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+    return {
+      text: "TMP",
+      color: "#d97706",
+      title: `On until ${until} · ${profiles}`,
+    };
+  }
+  return { text: "", color: IDLE_COLOR, title: `On · ${profiles}` };
+}
+
+/** Shows on the toolbar icon whether the rules are off, idle or temporary. */
+export async function updateBadge(config: AppliedConfig) {
+  badgeConfig = config;
+  clearTimeout(flashTimer);
+  const { text, color, title } = describeState(config);
+  await setActionBadge(text, color, `${EXTENSION_NAME} · ${title}`);
+}
+
+/**
+ * Confirms an action taken outside the popup by briefly showing `text`
+ * on the badge, with `note` as the tooltip, before the state badge returns.
+ */
+export async function flashBadge(
+  text: string,
+  note?: string,
+  color = FLASH_COLOR,
+) {
+  clearTimeout(flashTimer);
+  const title = note ?? (badgeConfig ? describeState(badgeConfig).title : "");
+  await setActionBadge(text, color, `${EXTENSION_NAME} · ${title}`);
+  flashTimer = setTimeout(() => {
+    if (badgeConfig) {
+      updateBadge(badgeConfig).catch((error: unknown) => console.error(error));
+    }
+  }, FLASH_DURATION_MS);
+}
@@ -0,0 +1,58 @@
+import type { AppliedConfig } from "../lib/config.ts";
+import { flashBadge } from "./badge.ts";
+import { updateConfig } from "./apply.ts";
+
+// Command names as declared under "commands" in manifest.json.
+const TOGGLE_COMMAND = "toggle-enabled";
+const CYCLE_PROFILE_COMMAND = "cycle-profile";
+const TEMPORARY_COMMAND = "temporary-session";
+
+const TEMPORARY_SESSION_MINUTES = 15;
+const BADGE_TEXT_LENGTH = 4;
+
+// Moves from the first active profile to the next one; several active
+// profiles collapse into one.
+function nextProfile(config: AppliedConfig): AppliedConfig {
+  const current = config.profiles.findIndex((profile) =>
+    config.activeProfileIds.includes(profile.id),
+  );
+  const next = config.profiles[(current + 1) % config.profiles.length];
+  return next ? { ...config, activeProfileIds: [next.id] } : config;
+}
+
+/** Handles a keyboard shortcut and confirms the new state on the badge. */
+export async function runCommand(command: string) {
+  switch (command) {
+    case TOGGLE_COMMAND: {
+      const config = await updateConfig((current) => ({
+        ...current,
+        enabled: !current.enabled,
+        temporaryUntil: null,
+      }));
+      await flashBadge(config.enabled ? "ON" : "OFF");
+      return;
+    }
+    case CYCLE_PROFILE_COMMAND: {
+      const config = await updateConfig(nextProfile);
+      const active = config.profiles.find((profile) =>
+        config.activeProfileIds.includes(profile.id),
+      );
+      await flashBadge(
+        active ? active.name.slice(0, BADGE_TEXT_LENGTH) : "—",
+        active ? `Profile: ${active.name}` : "No profiles",
+      );
+      return;
+    }
+    case TEMPORARY_COMMAND: {
+      await updateConfig((current) => ({
+        ...current,
+        enabled: true,
+        temporaryUntil: Date.now() + TEMPORARY_SESSION_MINUTES * 60_000,
+      }));
+      await flashBadge(`${TEMPORARY_SESSION_MINUTES}m`);
+      return;
+    }
+    default:
+      console.warn(`Unknown command: ${command}`);
+  }
+}
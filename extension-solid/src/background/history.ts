@@ -0,0 +1,72 @@
+import {
+  HISTORY_KEY,
+  MAX_HISTORY_ENTRIES,
+  readHistory,
+  type AppliedConfig,
+  type HistoryEntry,
+  type Profile,
+} from "../lib/config.ts";
+import { storageGet, storageSet } from "../lib/chrome.ts";
+
+// The callers run inside the apply queue, so reads and writes of the
+// history never interleave.
+
+/**
+ * Adds an applied config to the front of the history, dropping the oldest
+ * entries beyond MAX_HISTORY_ENTRIES. The first record also keeps the
+ * config it replaced, so the settings from before history was kept can be
+ * restored too.
+ */
+export async function recordHistory(
+  summary: string,
+  config: AppliedConfig,
+  replaced: AppliedConfig,
+) {
+  const stored = await storageGet([HISTORY_KEY]);
+  const history = readHistory(stored.configHistory);
+  const now = Date.now();
+  if (history.length === 0) {
+    history.push({
+      id: crypto.randomUUID(),
+      savedAt: now,
+      summary: "Settings before history was kept",
+      config: replaced,
+    });
+  }
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    savedAt: now,
+    summary,
+    config,
+  };
+  await storageSet({
+    configHistory: [entry, ...history].slice(0, MAX_HISTORY_ENTRIES),
+  });
+}
+
+/**
+ * Rewrites the profiles of every entry, so secrets in the history follow
+ * the live config when a passphrase is set or removed.
+ */
+export async function updateHistoryProfiles(
+  change: (profiles: Profile[]) => Promise<Profile[]>,
+) {
+  const stored = await storageGet([HISTORY_KEY]);
+  const history = readHistory(stored.configHistory);
+  if (history.length === 0) {
+    return;
+  }
+
+  await storageSet({
+    configHistory: await Promise.all(
+      history.map(async (entry) => ({
+        ...entry,
+        config: {
+          ...entry.config,
+          profiles: await change(entry.config.profiles),
+        },
+      })),
+    ),
+  });
+}
@@ -0,0 +1,171 @@
+import {
+  ALARM_NAME,
+  CONFIG_STORAGE_KEYS,
+  REFRESH_ALARM_NAME,
+  SCHEDULE_ALARM_NAME,
+  SUBSCRIPTION_ALARM_NAME,
+  TAB_SESSIONS_KEY,
+  type RuleIndexEntry,
+} from "../lib/config.ts";
+import type { WorkerMessage, WorkerResponse } from "../lib/messages.ts";
+import {
+  clearActivity,
+  hasMatchDebugEvent,
+  pollMatchedRules,
+  publishActivitySource,
+  recordDebugMatch,
+  setRuleIndex,
+  setTabSessions,
+} from "./activity.ts";
+import {
+  applyConfig,
+  clearHistory,
+  disableByExpiry,
+  initializeStorage,
+  reconcileIfChanged,
+  reconcileRules,
+  refreshGeneratedRules,
+  lockSecrets,
+  removeSecretPassphrase,
+  setSecretPassphrase,
+  setSubscriptions,
+  syncSubscriptions,
+  unlockSecrets,
+} from "./apply.ts";
+import { runCommand } from "./commands.ts";
+import { applySiteMenu, createSiteMenus } from "./sites.ts";
+import { applyToTab, clearTab } from "./tabs.ts";
+
+const toErrorResponse = (error: unknown): WorkerResponse => ({
+  ok: false,
+  error: error instanceof Error ? error.message : "Unexpected worker error.",
+});
+
+const logError = (error: unknown) => console.error(error);
+
+publishActivitySource();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "session" && changes[TAB_SESSIONS_KEY]) {
+    setTabSessions(changes[TAB_SESSIONS_KEY].newValue);
+  }
+  if (areaName !== "local") {
+    return;
+  }
+  if (changes.ruleIndex) {
+    setRuleIndex(
+      changes.ruleIndex.newValue as Record<number, RuleIndexEntry> | undefined,
+    );
+  }
+  if (CONFIG_STORAGE_KEYS.some((key) => key in changes)) {
+    reconcileIfChanged().catch(logError);
+  }
+});
+
+chrome.runtime.onMessage.addListener(
+  (message: WorkerMessage, _sender, sendResponse) => {
+    switch (message?.type) {
+      case "apply":
+        applyConfig(message.config, message.restoredFrom)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "applyToTab":
+        applyToTab(message.tabId, message.config)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "clearTab":
+        clearTab(message.tabId)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "refreshActivity":
+        (hasMatchDebugEvent ? Promise.resolve() : pollMatchedRules())
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "clearActivity":
+        clearActivity()
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "setSubscriptions":
+        setSubscriptions(message.subscriptions)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "syncSubscriptions":
+        syncSubscriptions()
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "setPassphrase":
+        setSecretPassphrase(message.passphrase)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "unlockSecrets":
+        unlockSecrets(message.passphrase)
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "lockSecrets":
+        lockSecrets()
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "removePassphrase":
+        removeSecretPassphrase()
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      case "clearHistory":
+        clearHistory()
+          .then(() => sendResponse({ ok: true }))
+          .catch((error: unknown) => sendResponse(toErrorResponse(error)));
+        return true;
+      default:
+        return false;
+    }
+  },
+);
+
+if (hasMatchDebugEvent) {
+  chrome.declarativeNetRequest.onRuleMatchedDebug.addListener(recordDebugMatch);
+}
+
+chrome.runtime.onInstalled.addListener(() => {
+  createSiteMenus();
+  initializeStorage().catch(logError);
+  syncSubscriptions().catch(logError);
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearTab(tabId).catch(logError);
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  initializeStorage().catch(logError);
+  syncSubscriptions().catch(logError);
+});
+
+chrome.contextMenus.onClicked.addListener((info) => {
+  applySiteMenu(info.menuItemId, info.pageUrl).catch(logError);
+});
+
+chrome.commands.onCommand.addListener((command) => {
+  runCommand(command).catch(logError);
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === ALARM_NAME) {
+    disableByExpiry().catch(logError);
+  } else if (alarm.name === REFRESH_ALARM_NAME) {
+    refreshGeneratedRules().catch(logError);
+  } else if (alarm.name === SCHEDULE_ALARM_NAME) {
+    reconcileRules().catch(logError);
+  } else if (alarm.name === SUBSCRIPTION_ALARM_NAME) {
+    syncSubscriptions().catch(logError);
+  }
+});
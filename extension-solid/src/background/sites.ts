@@ -0,0 +1,150 @@
+import {
+  MAX_RULE_ID,
+  type AppliedConfig,
+  type RuleConfig,
+} from "../lib/config.ts";
+import {
+  SITE_SCOPE_LABELS,
+  siteScopeChoices,
+  validateScopeEntry,
+  type SiteChoice,
+  type SiteScope,
+} from "../lib/scope.ts";
+import { ERROR_COLOR, flashBadge } from "./badge.ts";
+import { updateConfig } from "./apply.ts";
+
+const SITE_MENU_ID = "apply-to-site";
+const SITE_SCOPES: SiteScope[] = ["host", "parent", "subdomains"];
+
+const siteMenuId = (scope: SiteScope) => `${SITE_MENU_ID}:${scope}`;
+
+/** Registers the page context menu; menus persist, so once per install. */
+export function createSiteMenus() {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({
+      id: SITE_MENU_ID,
+      title: "Apply headers to this site",
+      contexts: ["page", "frame"],
+      documentUrlPatterns: ["http://*/*", "https://*/*"],
+    });
+    for (const scope of SITE_SCOPES) {
+      chrome.contextMenus.create({
+        id: siteMenuId(scope),
+        parentId: SITE_MENU_ID,
+        title: SITE_SCOPE_LABELS[scope],
+        contexts: ["page", "frame"],
+      });
+    }
+  });
+}
+
+// Scope entries share the rule's match mode, so a site whose mode differs
+// from every scoped header rule gets its own copy of the first one.
+function addSite(config: AppliedConfig, choice: SiteChoice): AppliedConfig {
+  const scopeError = validateScopeEntry(choice.entry, choice.mode);
+  if (scopeError) {
+    throw new Error(scopeError);
+  }
+
+  const profile =
+    config.profiles.find((item) => config.activeProfileIds.includes(item.id)) ??
+    config.profiles[0];
+  const headerRules = profile?.rules.filter((rule) => rule.kind === "headers");
+  if (!profile || !headerRules?.length) {
+    throw new Error("Add a header rule before applying it to sites.");
+  }
+
+  const base = headerRules[0];
+  const target =
+    headerRules.find(
+      (rule) => rule.domains.length > 0 && rule.domainMatchMode === choice.mode,
+    ) ??
+    (base.domains.length === 0 &&
+    (base.domainMatchMode !== "regex" || base.excludedDomains.length === 0)
+      ? base
+      : null);
+
+  let rules: RuleConfig[];
+  if (target) {
+    rules = profile.rules.map((rule) =>
+      rule === target
+        ? {
+            ...rule,
+            enabled: true,
+            domainMatchMode: choice.mode,
+            domains: rule.domains.includes(choice.entry)
+              ? rule.domains
+              : [...rule.domains, choice.entry],
+          }
+        : rule,
+    );
+  } else {
+    const id =
+      Math.max(
+        0,
+        ...config.profiles.flatMap((item) => item.rules.map((rule) => rule.id)),
+      ) + 1;
+    if (id > MAX_RULE_ID) {
+      throw new Error("No rule IDs left for a new rule.");
+    }
+    rules = [
+      ...profile.rules,
+      {
+        ...base,
+        id,
+        name: choice.label,
+        enabled: true,
+        domains: [choice.entry],
+        excludedDomains: [],
+        domainMatchMode: choice.mode,
+      },
+    ];
+  }
+
+  return {
+    ...config,
+    profiles: config.profiles.map((item) =>
+      item === profile ? { ...item, rules } : item,
+    ),
+    activeProfileIds: config.activeProfileIds.includes(profile.id)
+      ? config.activeProfileIds
+      : [...config.activeProfileIds, profile.id],
+  };
+}
+
+/** Adds the clicked page's site to the active profile's header rules. */
+export async function applySiteMenu(
+  menuItemId: string | number,
+  pageUrl: string | undefined,
+) {
+  const scope = SITE_SCOPES.find((item) => siteMenuId(item) === menuItemId);
+  if (!scope) {
+    return;
+  }
+
+  const choice = siteScopeChoices(pageUrl ?? "").find(
+    (item) => item.scope === scope,
+  );
+  try {
+    if (!choice) {
+      throw new Error(
+        scope === "host"
+          ? "Only http and https pages can be added."
+          : "This page's host has no parent domain.",
+      );
+    }
+    const config = await updateConfig((current) => addSite(current, choice));
+    await flashBadge(
+      "+1",
+      config.enabled
+        ? `Added ${choice.label}`
+        : `Added ${choice.label}; rules are off`,
+    );
+  } catch (error) {
+    await flashBadge(
+      "ERR",
+      error instanceof Error ? error.message : "Failed to add the site.",
+      ERROR_COLOR,
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import type { Profile } from "../lib/config.ts";
+import {
+  checkRegexSupport,
+  profileToDraft,
+  validateProfiles,
+} from "../lib/drafts.ts";
+import { formatSchemaError, loadConfig } from "../lib/schema.ts";
+
+const FETCH_TIMEOUT_MS = 15_000;
+// Sync errors are shown in a one-line status, so only the first few fields.
+const MAX_REPORTED_ERRORS = 3;
+
+/** Whether a subscription URL can be fetched by the worker. */
+export function isSubscriptionUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetches a shared config and returns its active profiles. The config
+ * goes through the same migrations, schema and rule validation as an
+ * import; its global variables are folded into each profile so they stay
+ * scoped to it.
+ */
+export async function fetchSubscription(url: string): Promise<Profile[]> {
+  if (!isSubscriptionUrl(url)) {
+    throw new Error("Subscription URL must use http or https.");
+  }
+
+  const response = await fetch(url, {
+    cache: "no-store",
+    credentials: "omit",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Server responded with ${response.status}.`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await response.text());
+  } catch {
+    throw new Error("Response is not valid JSON.");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Config must be a JSON object.");
+  }
+
+  const result = loadConfig(data as Record<string, unknown>);
+  if (!result.ok) {
+    const shown = result.errors
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(formatSchemaError)
+      .join(" ");
+    const hidden = result.errors.length - MAX_REPORTED_ERRORS;
+    throw new Error(hidden > 0 ? `${shown} (+${hidden} more)` : shown);
+  }
+
+  const { config } = result;
+  if (!config.enabled) {
+    return [];
+  }
+
+  // A rule that is only rejected by updateDynamicRules would take the local
+  // rules down with it, so remote rules are validated like a save. That
+  // includes the ID block check: rules are renumbered on compile.
+  const validated = validateProfiles(
+    config.profiles
+      .filter((profile) => config.activeProfileIds.includes(profile.id))
+      .map(profileToDraft),
+    config.variables,
+  );
+  if (!validated.ok) {
+    throw new Error(validated.error);
+  }
+  const regexError = await checkRegexSupport(validated.profiles);
+  if (regexError) {
+    throw new Error(regexError);
+  }
+
+  const { profiles, variables } = validated;
+  const host = new URL(url).host;
+  return profiles.map((profile) => {
+    const names = new Set(profile.variables.map((variable) => variable.name));
+    return {
+      ...profile,
+      name: `${host}: ${profile.name}`,
+      variables: [
+        ...variables.filter((variable) => !names.has(variable.name)),
+        ...profile.variables,
+      ],
+    };
+  });
+}
@@ -0,0 +1,140 @@
+import {
+  REFRESH_ALARM_NAME,
+  REFRESH_PERIOD_MINUTES,
+  TAB_SESSIONS_KEY,
+  readAppliedConfig,
+  readTabSessions,
+  type AppliedConfig,
+  type RuleIndexEntry,
+  type TabSession,
+} from "../lib/config.ts";
+import {
+  buildRuleIndex,
+  compileRules,
+  hasGeneratedValues,
+  renderRule,
+} from "../lib/rules.ts";
+import {
+  createAlarm,
+  getSessionRules,
+  sessionGet,
+  sessionSet,
+  updateSessionRules,
+} from "../lib/chrome.ts";
+
+let taskQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>) {
+  const result = taskQueue.then(task);
+  taskQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function loadTabSessions() {
+  const result = await sessionGet([TAB_SESSIONS_KEY]);
+  return readTabSessions(result[TAB_SESSIONS_KEY]);
+}
+
+/**
+ * Compiles the active profiles into session rules limited to one tab,
+ * replacing whatever that tab had before. Session rules have their own ID
+ * space, so IDs are allocated past the ones other tabs already hold.
+ */
+export const applyToTab = (tabId: number, config: AppliedConfig) =>
+  enqueue(async () => {
+    // The global switch and timer only govern the persistent rules.
+    const normalized = readAppliedConfig({
+      ...config,
+      enabled: true,
+      temporaryUntil: null,
+    });
+    const activeProfiles = normalized.profiles.filter((profile) =>
+      normalized.activeProfileIds.includes(profile.id),
+    );
+    const compiledRules = compileRules(
+      activeProfiles,
+      true,
+      normalized.variables,
+    );
+    if (compiledRules.length === 0) {
+      throw new Error("No enabled rules to apply to this tab.");
+    }
+
+    const sessions = await loadTabSessions();
+    const previousIds = sessions[tabId]?.ruleIds ?? [];
+    const usedIds = (await getSessionRules())
+      .map((rule) => rule.id)
+      .filter((id) => !previousIds.includes(id));
+    let nextId = Math.max(0, ...usedIds) + 1;
+
+    const sourceIndex = buildRuleIndex(
+      activeProfiles,
+      true,
+      normalized.variables,
+    );
+    const ruleIndex: Record<number, RuleIndexEntry> = {};
+    const tabRules = compiledRules.map((rule) => {
+      const id = nextId;
+      nextId += 1;
+      ruleIndex[id] = sourceIndex[rule.id];
+      return { ...rule, id, condition: { ...rule.condition, tabIds: [tabId] } };
+    });
+
+    await updateSessionRules(previousIds, tabRules.map(renderRule));
+
+    const session: TabSession = {
+      tabId,
+      appliedAt: Date.now(),
+      profileNames: activeProfiles.map((profile) => profile.name),
+      ruleIds: tabRules.map((rule) => rule.id),
+      ruleTemplates: tabRules.filter(hasGeneratedValues),
+      ruleIndex,
+    };
+    await sessionSet({ [TAB_SESSIONS_KEY]: { ...sessions, [tabId]: session } });
+
+    if (session.ruleTemplates.length > 0) {
+      await createAlarm(REFRESH_ALARM_NAME, {
+        periodInMinutes: REFRESH_PERIOD_MINUTES,
+      });
+    }
+  });
+
+/** Removes a tab's session rules, e.g. when the tab is closed. */
+export const clearTab = (tabId: number) =>
+  enqueue(async () => {
+    const sessions = await loadTabSessions();
+    const session = sessions[tabId];
+    if (!session) {
+      return;
+    }
+
+    await updateSessionRules(session.ruleIds, []);
+    const remaining = { ...sessions };
+    delete remaining[tabId];
+    await sessionSet({ [TAB_SESSIONS_KEY]: remaining });
+  });
+
+/**
+ * Re-renders generated header values in tab session rules and reports
+ * whether any tab still needs periodic refreshes.
+ */
+export const refreshTabRules = () =>
+  enqueue(async () => {
+    const templates = Object.values(await loadTabSessions()).flatMap(
+      (session) => session.ruleTemplates,
+    );
+    if (templates.length > 0) {
+      await updateSessionRules(
+        templates.map((rule) => rule.id),
+        templates.map(renderRule),
+      );
+    }
+    return templates.length > 0;
+  });
+
+export const hasTabTemplates = () =>
+  enqueue(async () =>
+    Object.values(await loadTabSessions()).some(
+      (session) => session.ruleTemplates.length > 0,
+    ),
+  );
@@ -0,0 +1,23 @@
+export type ActivitySource = "debug" | "matched";
+
+/** One matched request, as recorded by the background worker. */
+export interface ActivityEntry {
+  id: string;
+  time: number;
+  url: string;
+  tabId: number;
+  method: string | null;
+  type: string | null;
+  ruleId: number;
+  profileName: string | null;
+  ruleName: string | null;
+  headers: string[];
+  /** Matched a tab-only session rule rather than a persistent rule. */
+  tabOnly: boolean;
+  source: ActivitySource;
+}
+
+// Session storage keys; the log does not survive a browser restart.
+export const ACTIVITY_LOG_KEY = "activityLog";
+export const ACTIVITY_CURSOR_KEY = "activityCursor";
+export const ACTIVITY_SOURCE_KEY = "activitySource";
@@ -0,0 +1,287 @@
+import type { StoredConfig } from "./config.ts";
+
+// Promise wrappers around the callback-style extension APIs, shared by the
+// popup and the background worker.
+
+function readLastError(context: string) {
+  const error = chrome.runtime.lastError;
+  if (error) {
+    throw new Error(`${context}: ${error.message}`);
+  }
+}
+
+export const storageGet = (keys: string[]) =>
+  new Promise<StoredConfig>((resolve, reject) => {
+    chrome.storage.local.get(keys, (result) => {
+      try {
+        readLastError("Failed to read extension storage");
+        resolve(result as StoredConfig);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const storageSet = (payload: StoredConfig) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.storage.local.set(payload, () => {
+      try {
+        readLastError("Failed to persist extension storage");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const storageRemove = (keys: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.storage.local.remove(keys, () => {
+      try {
+        readLastError("Failed to clean up extension storage");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const clearAlarm = (name: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (!chrome.alarms) {
+      resolve();
+      return;
+    }
+    chrome.alarms.clear(name, () => {
+      try {
+        readLastError("Failed to clear extension alarm");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const createAlarm = (
+  name: string,
+  alarmInfo: chrome.alarms.AlarmCreateInfo,
+) =>
+  new Promise<void>((resolve, reject) => {
+    if (!chrome.alarms) {
+      resolve();
+      return;
+    }
+    chrome.alarms.create(name, alarmInfo);
+    const error = chrome.runtime.lastError;
+    if (error) {
+      reject(new Error(`Failed to schedule extension alarm: ${error.message}`));
+      return;
+    }
+    resolve();
+  });
+
+export const getDynamicRules = () =>
+  new Promise<chrome.declarativeNetRequest.Rule[]>((resolve, reject) => {
+    chrome.declarativeNetRequest.getDynamicRules((rules) => {
+      try {
+        readLastError("Failed to read dynamic rules");
+        resolve(rules);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const isRegexSupported = (regex: string) =>
+  new Promise<chrome.declarativeNetRequest.IsRegexSupportedResult>(
+    (resolve, reject) => {
+      chrome.declarativeNetRequest.isRegexSupported({ regex }, (result) => {
+        try {
+          readLastError("Failed to check regex support");
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    },
+  );
+
+// Only unpacked extensions may call this; callers fall back otherwise.
+export const testMatchOutcome = (
+  request: chrome.declarativeNetRequest.TestMatchRequestDetails,
+) =>
+  new Promise<chrome.declarativeNetRequest.MatchedRule[]>((resolve, reject) => {
+    chrome.declarativeNetRequest.testMatchOutcome(request, (result) => {
+      try {
+        readLastError("Failed to test the request");
+        resolve(result.matchedRules);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const updateDynamicRules = (
+  rulesToRemove: number[],
+  rulesToAdd: chrome.declarativeNetRequest.Rule[],
+) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.declarativeNetRequest.updateDynamicRules(
+      { removeRuleIds: rulesToRemove, addRules: rulesToAdd },
+      () => {
+        try {
+          readLastError("Failed to update dynamic rules");
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      },
+    );
+  });
+
+export const sessionGet = (keys: string[]) =>
+  new Promise<Record<string, unknown>>((resolve, reject) => {
+    chrome.storage.session.get(keys, (result) => {
+      try {
+        readLastError("Failed to read session storage");
+        resolve(result);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const sessionSet = (payload: Record<string, unknown>) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.storage.session.set(payload, () => {
+      try {
+        readLastError("Failed to write session storage");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const sessionRemove = (keys: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.storage.session.remove(keys, () => {
+      try {
+        readLastError("Failed to clean up session storage");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const getSessionRules = () =>
+  new Promise<chrome.declarativeNetRequest.Rule[]>((resolve, reject) => {
+    chrome.declarativeNetRequest.getSessionRules((rules) => {
+      try {
+        readLastError("Failed to read session rules");
+        resolve(rules);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const updateSessionRules = (
+  rulesToRemove: number[],
+  rulesToAdd: chrome.declarativeNetRequest.Rule[],
+) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.declarativeNetRequest.updateSessionRules(
+      { removeRuleIds: rulesToRemove, addRules: rulesToAdd },
+      () => {
+        try {
+          readLastError("Failed to update session rules");
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      },
+    );
+  });
+
+export const getActiveTabId = () =>
+  new Promise<number | null>((resolve, reject) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      try {
+        readLastError("Failed to read the active tab");
+        resolve(tabs[0]?.id ?? null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const setActionBadge = (text: string, color: string, title: string) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.action.setBadgeBackgroundColor({ color }, () => {
+      chrome.action.setBadgeText({ text }, () => {
+        chrome.action.setTitle({ title }, () => {
+          try {
+            readLastError("Failed to update the toolbar badge");
+            resolve();
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+    });
+  });
+
+export const getActiveTabUrl = () =>
+  new Promise<string | null>((resolve, reject) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      try {
+        readLastError("Failed to read the active tab");
+        resolve(tabs[0]?.url ?? null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const openOptionsPage = () =>
+  new Promise<void>((resolve, reject) => {
+    chrome.runtime.openOptionsPage(() => {
+      try {
+        readLastError("Failed to open the options page");
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+export const getMatchedRules = (minTimeStamp: number) =>
+  new Promise<chrome.declarativeNetRequest.MatchedRuleInfo[]>(
+    (resolve, reject) => {
+      chrome.declarativeNetRequest.getMatchedRules(
+        { minTimeStamp },
+        (details) => {
+          try {
+            readLastError("Failed to read matched rules");
+            resolve(details.rulesMatchedInfo);
+          } catch (error) {
+            reject(error);
+          }
+        },
+      );
+    },
+  );
+
+export const getTabUrl = (tabId: number) =>
+  new Promise<string | null>((resolve, reject) => {
+    chrome.tabs.get(tabId, (tab) => {
+      try {
+        readLastError("Failed to read the tab");
+        resolve(tab?.url ?? null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
@@ -0,0 +1,657 @@
+export type HeaderOperation = "set" | "append" | "remove";
+
+/** AES-GCM ciphertext of a secret header value, base64 encoded. */
+export interface SealedValue {
+  iv: string;
+  data: string;
+}
+
+export interface HeaderConfig {
+  key: string;
+  value: string;
+  operation: HeaderOperation;
+  /** Masked in the UI, redacted from exports and encrypted at rest. */
+  secret?: boolean;
+  /**
+   * Set while a secret is stored encrypted and not yet unlocked; `value`
+   * is empty until then and the header is left out of compiled rules.
+   */
+  sealed?: SealedValue;
+}
+
+/** A named value that header templates reference as `{{var:NAME}}`. */
+export interface VariableConfig {
+  name: string;
+  value: string;
+}
+
+export type DomainMatchMode =
+  "exact" | "include_subdomains" | "subdomains_only" | "regex";
+export type ResourceTypeMode = "include" | "exclude";
+export type RuleKind = "headers" | "redirect" | "block";
+export type RedirectMode = "url" | "regex" | "transform";
+
+export interface QueryParam {
+  key: string;
+  value: string;
+}
+
+/** Parts of the request URL to replace; empty strings keep the original. */
+export interface UrlTransform {
+  scheme: string;
+  host: string;
+  port: string;
+  path: string;
+  addQueryParams: QueryParam[];
+  removeQueryParams: string[];
+}
+
+/** Where a redirect rule sends requests; only the active mode is used. */
+export interface RedirectConfig {
+  mode: RedirectMode;
+  url: string;
+  /** Uses `\1`-`\9` from the rule's regex scope. */
+  regexSubstitution: string;
+  transform: UrlTransform;
+}
+
+/** Limits which requests a rule's scope applies to; empty lists mean all. */
+export interface RequestFilters {
+  resourceTypes: string[];
+  resourceTypeMode: ResourceTypeMode;
+  requestMethods: string[];
+}
+
+/**
+ * Limits a rule to requests started by (or not by) these sites, including
+ * their subdomains; empty lists mean any initiator.
+ */
+export interface InitiatorFilters {
+  initiatorDomains: string[];
+  excludedInitiatorDomains: string[];
+}
+
+/**
+ * One independently scoped action: header modifications, a redirect or
+ * a block, depending on `kind`. The numeric id is stable across edits and reserves
+ * a block of DNR rule IDs for the rule.
+ */
+export interface RuleConfig extends RequestFilters, InitiatorFilters {
+  id: number;
+  name: string;
+  enabled: boolean;
+  kind: RuleKind;
+  headers: HeaderConfig[];
+  responseHeaders: HeaderConfig[];
+  domains: string[];
+  /** Entries carved out of `domains`, matched with the same mode. */
+  excludedDomains: string[];
+  domainMatchMode: DomainMatchMode;
+  redirect: RedirectConfig;
+}
+
+/** Profile variables override global variables of the same name. */
+export interface Profile {
+  id: string;
+  name: string;
+  rules: RuleConfig[];
+  variables: VariableConfig[];
+}
+
+/** Describes a compiled DNR rule so the activity log can name its source. */
+export interface RuleIndexEntry {
+  profileName: string;
+  ruleName: string;
+  headers: string[];
+  /** Lower-cased `request:name` and `response:name` of secret headers. */
+  secretHeaders: string[];
+}
+
+/**
+ * A recurring local-time window; `days` uses Date#getDay numbering and an
+ * `end` before `start` runs past midnight.
+ */
+export interface ScheduleWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+/**
+ * When the rules are active. Outside `startsAt`–`expiresAt` they are off;
+ * inside, any matching window turns them on, and no windows means always.
+ */
+export interface ScheduleConfig {
+  windows: ScheduleWindow[];
+  startsAt: number | null;
+  expiresAt: number | null;
+}
+
+/**
+ * Passphrase settings for encrypting secret header values at rest. The
+ * derived key itself is only ever kept in session storage.
+ */
+export interface SecretEncryption {
+  salt: string;
+  iterations: number;
+  /** A known value sealed with the key, to recognize a wrong passphrase. */
+  check: SealedValue;
+}
+
+/** A remote config URL whose active profiles are applied read-only. */
+export interface SubscriptionConfig {
+  id: string;
+  url: string;
+  enabled: boolean;
+}
+
+/**
+ * The last fetch of a subscription. `profiles` keeps the last valid copy,
+ * so a failed sync leaves the previous rules in place.
+ */
+export interface SubscriptionState {
+  lastSyncAt: number | null;
+  lastAttemptAt: number | null;
+  lastError: string | null;
+  profiles: Profile[];
+}
+
+/** The user-editable state the background worker turns into DNR rules. */
+export interface AppliedConfig {
+  profiles: Profile[];
+  activeProfileIds: string[];
+  enabled: boolean;
+  temporaryUntil: number | null;
+  variables: VariableConfig[];
+  schedule: ScheduleConfig;
+}
+
+/**
+ * A config as it was applied, kept so earlier settings can be compared
+ * and restored. Secret values are stored the same way as the live config.
+ */
+export interface HistoryEntry {
+  id: string;
+  savedAt: number;
+  summary: string;
+  config: AppliedConfig;
+}
+
+/**
+ * Session rules applied to a single tab, kept in session storage so they
+ * are forgotten together with the rules when the browser closes.
+ */
+export interface TabSession {
+  tabId: number;
+  appliedAt: number;
+  profileNames: string[];
+  ruleIds: number[];
+  ruleTemplates: chrome.declarativeNetRequest.Rule[];
+  ruleIndex: Record<number, RuleIndexEntry>;
+}
+
+export interface StoredConfig {
+  version?: number;
+  profiles?: Profile[];
+  activeProfileIds?: string[];
+  enabled?: boolean;
+  temporaryUntil?: number | null;
+  variables?: VariableConfig[];
+  schedule?: ScheduleConfig;
+  secretEncryption?: SecretEncryption;
+  subscriptions?: SubscriptionConfig[];
+  subscriptionState?: Record<string, SubscriptionState>;
+  /** Applied configs, newest first. */
+  configHistory?: HistoryEntry[];
+  ruleIndex?: Record<number, RuleIndexEntry>;
+  /** Legacy single-profile fields, folded into a default profile on load. */
+  headers?: HeaderConfig[];
+  domains?: string[];
+  domainMatchMode?: DomainMatchMode;
+}
+
+export const RESOURCE_TYPES = [
+  "main_frame",
+  "sub_frame",
+  "xmlhttprequest",
+  "script",
+  "stylesheet",
+  "image",
+  "font",
+  "media",
+  "websocket",
+  "webtransport",
+  "webbundle",
+  "object",
+  "ping",
+  "csp_report",
+  "other",
+];
+export const REQUEST_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+  "options",
+  "connect",
+  "other",
+];
+export const ALARM_NAME = "header-modifier-expiry";
+// Re-renders generated header values in the background worker.
+export const REFRESH_ALARM_NAME = "header-modifier-refresh";
+export const REFRESH_PERIOD_MINUTES = 1;
+// Fires at the next schedule transition, in either direction.
+export const SCHEDULE_ALARM_NAME = "header-modifier-schedule";
+export const SUBSCRIPTION_ALARM_NAME = "header-modifier-subscriptions";
+export const SUBSCRIPTION_PERIOD_MINUTES = 30;
+// `{{token}}` placeholders in header values.
+export const TEMPLATE_RE = /\{\{\s*([^{}]*?)\s*\}\}/g;
+export const GENERATOR_TOKENS = ["uuid", "now", "now:iso"];
+export const DEFAULT_PROFILE_NAME = "Default";
+// Stands in for secret values wherever they would be displayed.
+export const SECRET_MASK = "••••••";
+export const HEADER_NAME_RE = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+export const LEGACY_STORAGE_KEYS = ["headers", "domains", "domainMatchMode"];
+// Session storage key holding TabSession entries keyed by tab ID.
+export const TAB_SESSIONS_KEY = "tabSessions";
+// Session storage key holding the compiled rules whose header values still
+// contain generator tokens. They carry resolved secret values, so they are
+// never written to local storage.
+export const RULE_TEMPLATES_SESSION_KEY = "ruleTemplates";
+export const SECRET_ENCRYPTION_KEY = "secretEncryption";
+// Session storage is cleared when the browser closes, locking secrets again.
+export const SECRET_KEY_SESSION_KEY = "secretKey";
+export const SUBSCRIPTIONS_KEY = "subscriptions";
+export const SUBSCRIPTION_STATE_KEY = "subscriptionState";
+export const HISTORY_KEY = "configHistory";
+export const MAX_HISTORY_ENTRIES = 20;
+export const CONFIG_STORAGE_KEYS = [
+  "profiles",
+  "activeProfileIds",
+  "enabled",
+  "temporaryUntil",
+  "variables",
+  "schedule",
+];
+// Each rule owns the DNR IDs [id * RULE_ID_BLOCK + 1, (id + 1) * RULE_ID_BLOCK),
+// one per scope entry, so editing one rule never renumbers another.
+export const RULE_ID_BLOCK = 1000;
+// Subscribed rules are renumbered from here on every compile, so they never
+// collide with local rule IDs.
+export const REMOTE_RULE_ID_START = 2_000_000;
+export const MAX_RULE_ID = REMOTE_RULE_ID_START - 1;
+
+export function isHeaderOperation(value: unknown): value is HeaderOperation {
+  return value === "set" || value === "append" || value === "remove";
+}
+
+export function isDomainMatchMode(value: unknown): value is DomainMatchMode {
+  return (
+    value === "exact" ||
+    value === "include_subdomains" ||
+    value === "subdomains_only" ||
+    value === "regex"
+  );
+}
+
+function parseStoredHeaders(value: unknown): HeaderConfig[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(
+      (item): item is HeaderConfig =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof (item as { key: unknown }).key === "string" &&
+        typeof (item as { value: unknown }).value === "string",
+    )
+    .map((item) => ({
+      key: item.key,
+      value: item.value,
+      operation: isHeaderOperation(item.operation) ? item.operation : "set",
+      ...(item.secret === true && { secret: true }),
+      ...(item.secret === true &&
+        isSealedValue(item.sealed) && {
+          sealed: { iv: item.sealed.iv, data: item.sealed.data },
+        }),
+    }));
+}
+
+function isSealedValue(value: unknown): value is SealedValue {
+  const data = asRecord(value);
+  return typeof data.iv === "string" && typeof data.data === "string";
+}
+
+export function parseStoredVariables(value: unknown): VariableConfig[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(
+      (item): item is VariableConfig =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof (item as { name: unknown }).name === "string" &&
+        typeof (item as { value: unknown }).value === "string",
+    )
+    .map((item) => ({ name: item.name, value: item.value }));
+}
+
+function asRecord(value: unknown) {
+  return (typeof value === "object" && value !== null ? value : {}) as Record<
+    string,
+    unknown
+  >;
+}
+
+function parseKnownValues(value: unknown, known: string[]) {
+  return Array.isArray(value)
+    ? known.filter((item) => value.includes(item))
+    : [];
+}
+
+export function createScheduleConfig(): ScheduleConfig {
+  return { windows: [], startsAt: null, expiresAt: null };
+}
+
+function readTimestamp(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function parseStoredSchedule(value: unknown): ScheduleConfig {
+  const data = asRecord(value);
+  const windows = Array.isArray(data.windows)
+    ? data.windows.map(asRecord).map((window) => ({
+        days: [0, 1, 2, 3, 4, 5, 6].filter(
+          (day) => Array.isArray(window.days) && window.days.includes(day),
+        ),
+        start: readString(window.start),
+        end: readString(window.end),
+      }))
+    : [];
+
+  return {
+    windows,
+    startsAt: readTimestamp(data.startsAt),
+    expiresAt: readTimestamp(data.expiresAt),
+  };
+}
+
+export function createRedirectConfig(): RedirectConfig {
+  return {
+    mode: "url",
+    url: "",
+    regexSubstitution: "",
+    transform: {
+      scheme: "",
+      host: "",
+      port: "",
+      path: "",
+      addQueryParams: [],
+      removeQueryParams: [],
+    },
+  };
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+function readStrings(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+function parseStoredRedirect(value: unknown): RedirectConfig {
+  const data = asRecord(value);
+  const transform = asRecord(data.transform);
+
+  return {
+    mode:
+      data.mode === "regex" || data.mode === "transform" ? data.mode : "url",
+    url: readString(data.url),
+    regexSubstitution: readString(data.regexSubstitution),
+    transform: {
+      scheme: readString(transform.scheme),
+      host: readString(transform.host),
+      port: readString(transform.port),
+      path: readString(transform.path),
+      addQueryParams: Array.isArray(transform.addQueryParams)
+        ? transform.addQueryParams
+            .map(asRecord)
+            .filter((item) => typeof item.key === "string")
+            .map((item) => ({
+              key: readString(item.key),
+              value: readString(item.value),
+            }))
+        : [],
+      removeQueryParams: Array.isArray(transform.removeQueryParams)
+        ? transform.removeQueryParams.filter(
+            (item): item is string => typeof item === "string",
+          )
+        : [],
+    },
+  };
+}
+
+function parseStoredRule(value: unknown, fallbackName: string): RuleConfig {
+  const data = asRecord(value);
+
+  return {
+    // Missing or invalid IDs are reassigned by assignRuleIds.
+    id:
+      typeof data.id === "number" &&
+      Number.isInteger(data.id) &&
+      data.id > 0 &&
+      data.id <= MAX_RULE_ID
+        ? data.id
+        : 0,
+    name:
+      typeof data.name === "string" && data.name.trim() !== ""
+        ? data.name.trim()
+        : fallbackName,
+    enabled: typeof data.enabled === "boolean" ? data.enabled : true,
+    kind:
+      data.kind === "redirect" || data.kind === "block" ? data.kind : "headers",
+    headers: parseStoredHeaders(data.headers),
+    responseHeaders: parseStoredHeaders(data.responseHeaders),
+    domains: readStrings(data.domains),
+    excludedDomains: readStrings(data.excludedDomains),
+    domainMatchMode: isDomainMatchMode(data.domainMatchMode)
+      ? data.domainMatchMode
+      : "include_subdomains",
+    resourceTypes: parseKnownValues(data.resourceTypes, RESOURCE_TYPES),
+    resourceTypeMode:
+      data.resourceTypeMode === "exclude" ? "exclude" : "include",
+    requestMethods: parseKnownValues(data.requestMethods, REQUEST_METHODS),
+    initiatorDomains: readStrings(data.initiatorDomains),
+    excludedInitiatorDomains: readStrings(data.excludedInitiatorDomains),
+    redirect: parseStoredRedirect(data.redirect),
+  };
+}
+
+function parseStoredProfile(value: unknown, fallbackName: string): Profile {
+  const data = asRecord(value);
+
+  // Profiles saved before rules existed carry one header/scope set directly.
+  const rules = Array.isArray(data.rules)
+    ? data.rules.map((item, index) =>
+        parseStoredRule(item, `Rule ${index + 1}`),
+      )
+    : [parseStoredRule({ ...data, id: undefined, name: "Rule 1" }, "Rule 1")];
+
+  return {
+    id:
+      typeof data.id === "string" && data.id !== ""
+        ? data.id
+        : crypto.randomUUID(),
+    name:
+      typeof data.name === "string" && data.name.trim() !== ""
+        ? data.name.trim()
+        : fallbackName,
+    rules: rules.length > 0 ? rules : [parseStoredRule({}, "Rule 1")],
+    variables: parseStoredVariables(data.variables),
+  };
+}
+
+/** Gives every rule a unique ID, keeping existing IDs where possible. */
+function assignRuleIds(profiles: Profile[]) {
+  const usedIds = new Set<number>();
+  let nextId =
+    Math.max(
+      0,
+      ...profiles.flatMap((profile) => profile.rules.map((rule) => rule.id)),
+    ) + 1;
+
+  for (const profile of profiles) {
+    for (const rule of profile.rules) {
+      if (rule.id === 0 || usedIds.has(rule.id)) {
+        rule.id = nextId;
+        nextId += 1;
+      }
+      usedIds.add(rule.id);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Reads the profile set from storage or an import, folding the legacy
+ * single-profile layout into one default profile when no profiles exist.
+ */
+export function readProfiles(data: Record<string, unknown>): Profile[] {
+  if (Array.isArray(data.profiles) && data.profiles.length > 0) {
+    const seenIds = new Set<string>();
+    return assignRuleIds(
+      data.profiles.map((item, index) => {
+        const profile = parseStoredProfile(item, `Profile ${index + 1}`);
+        if (seenIds.has(profile.id)) {
+          profile.id = crypto.randomUUID();
+        }
+        seenIds.add(profile.id);
+        return profile;
+      }),
+    );
+  }
+
+  return assignRuleIds([
+    parseStoredProfile(
+      {
+        name: DEFAULT_PROFILE_NAME,
+        headers: data.headers,
+        domains: data.domains,
+        domainMatchMode: data.domainMatchMode,
+      },
+      DEFAULT_PROFILE_NAME,
+    ),
+  ]);
+}
+
+export function readActiveProfileIds(value: unknown, profiles: Profile[]) {
+  if (!Array.isArray(value)) {
+    return profiles.slice(0, 1).map((profile) => profile.id);
+  }
+
+  const knownIds = new Set(profiles.map((profile) => profile.id));
+  return value.filter(
+    (item): item is string => typeof item === "string" && knownIds.has(item),
+  );
+}
+
+/** Reads the applied state from storage, tolerating missing or stale fields. */
+export function readAppliedConfig(
+  data: Record<string, unknown>,
+): AppliedConfig {
+  const profiles = readProfiles(data);
+  return {
+    profiles,
+    activeProfileIds: readActiveProfileIds(data.activeProfileIds, profiles),
+    enabled: typeof data.enabled === "boolean" ? data.enabled : true,
+    temporaryUntil:
+      typeof data.temporaryUntil === "number" ? data.temporaryUntil : null,
+    variables: parseStoredVariables(data.variables),
+    schedule: parseStoredSchedule(data.schedule),
+  };
+}
+
+export function readTabSessions(value: unknown): Record<string, TabSession> {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, TabSession>)
+    : {};
+}
+
+export function readSubscriptions(value: unknown): SubscriptionConfig[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item) => {
+    const data = asRecord(item);
+    return typeof data.id === "string" && typeof data.url === "string"
+      ? [
+          {
+            id: data.id,
+            url: data.url,
+            enabled: typeof data.enabled === "boolean" ? data.enabled : true,
+          },
+        ]
+      : [];
+  });
+}
+
+export function readSubscriptionState(
+  value: unknown,
+): Record<string, SubscriptionState> {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, SubscriptionState>)
+    : {};
+}
+
+export function readHistory(value: unknown): HistoryEntry[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item) => {
+    const data = asRecord(item);
+    return typeof data.id === "string" &&
+      typeof data.savedAt === "number" &&
+      typeof data.config === "object" &&
+      data.config !== null
+      ? [
+          {
+            id: data.id,
+            savedAt: data.savedAt,
+            summary: typeof data.summary === "string" ? data.summary : "",
+            config: readAppliedConfig(asRecord(data.config)),
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Collects the profiles of enabled subscriptions, renumbering their rules
+ * from REMOTE_RULE_ID_START in subscription order.
+ */
+export function readRemoteProfiles(
+  subscriptions: SubscriptionConfig[],
+  state: Record<string, SubscriptionState>,
+): Profile[] {
+  let nextId = REMOTE_RULE_ID_START;
+  return subscriptions
+    .filter((subscription) => subscription.enabled)
+    .flatMap((subscription) =>
+      (state[subscription.id]?.profiles ?? []).map((profile) => ({
+        ...profile,
+        rules: profile.rules.map((rule) => ({ ...rule, id: nextId++ })),
+      })),
+    );
+}
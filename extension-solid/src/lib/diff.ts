@@ -0,0 +1,349 @@
+import type {
+  AppliedConfig,
+  Profile,
+  RuleConfig,
+  VariableConfig,
+} from "./config.ts";
+import { describeRuleChanges } from "./rules.ts";
+
+export type LineChange = "same" | "removed" | "added" | "changed";
+
+/** One row of a side-by-side diff; a missing side is null. */
+export interface DiffRow {
+  left: string | null;
+  right: string | null;
+  change: LineChange;
+}
+
+// The LCS table is quadratic; beyond this many cells the differing middle
+// is shown as replaced wholesale instead.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const WEEKDAY_LABELS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+// A summary names this many changes before counting the rest.
+const MAX_SUMMARY_PARTS = 3;
+
+function diffMiddle(before: string[], after: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((left) => ({
+        left,
+        right: null,
+        change: "removed" as const,
+      })),
+      ...after.map((right) => ({
+        left: null,
+        right,
+        change: "added" as const,
+      })),
+    ];
+  }
+
+  // lengths[i][j] is the LCS length of before[i..] and after[j..].
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      rows.push({ left: before[i++], right: after[j++], change: "same" });
+    } else if (
+      j === after.length ||
+      (i < before.length &&
+        lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+    ) {
+      rows.push({ left: before[i++], right: null, change: "removed" });
+    } else {
+      rows.push({ left: null, right: after[j++], change: "added" });
+    }
+  }
+  return rows;
+}
+
+// Side by side, a removed run followed by an added one reads as the lines
+// having changed, so they are paired up row by row.
+function pairChanges(rows: DiffRow[]) {
+  const paired: DiffRow[] = [];
+  let index = 0;
+  while (index < rows.length) {
+    if (rows[index].change !== "removed") {
+      paired.push(rows[index++]);
+      continue;
+    }
+    const removed: string[] = [];
+    while (index < rows.length && rows[index].change === "removed") {
+      removed.push(rows[index++].left ?? "");
+    }
+    const added: string[] = [];
+    while (index < rows.length && rows[index].change === "added") {
+      added.push(rows[index++].right ?? "");
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      const left = removed[row] ?? null;
+      const right = added[row] ?? null;
+      paired.push({
+        left,
+        right,
+        change:
+          left === null ? "added" : right === null ? "removed" : "changed",
+      });
+    }
+  }
+  return paired;
+}
+
+/** Aligns two texts line by line for a side-by-side view. */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const same = (lines: string[]) =>
+    lines.map((line) => ({ left: line, right: line, change: "same" as const }));
+  return [
+    ...same(before.slice(0, start)),
+    ...pairChanges(
+      diffMiddle(
+        before.slice(start, before.length - end),
+        after.slice(start, after.length - end),
+      ),
+    ),
+    ...same(before.slice(before.length - end)),
+  ];
+}
+
+const describeVariables = (variables: VariableConfig[], indent: string) =>
+  variables.map(
+    (variable) => `${indent}{{var:${variable.name}}} = ${variable.value}`,
+  );
+
+function describeRule(rule: RuleConfig) {
+  const lines = [
+    `  #${rule.id} ${rule.name} · ${rule.kind}${rule.enabled ? "" : " · off"}`,
+  ];
+  if (rule.domains.length > 0) {
+    lines.push(
+      `    scope (${rule.domainMatchMode}): ${rule.domains.join(", ")}`,
+    );
+  }
+  if (rule.excludedDomains.length > 0) {
+    lines.push(`    except: ${rule.excludedDomains.join(", ")}`);
+  }
+  if (rule.initiatorDomains.length > 0) {
+    lines.push(`    from: ${rule.initiatorDomains.join(", ")}`);
+  }
+  if (rule.excludedInitiatorDomains.length > 0) {
+    lines.push(`    not from: ${rule.excludedInitiatorDomains.join(", ")}`);
+  }
+  if (rule.resourceTypes.length > 0) {
+    lines.push(
+      `    ${rule.resourceTypeMode === "exclude" ? "all types except" : "types"}: ${rule.resourceTypes.join(", ")}`,
+    );
+  }
+  if (rule.requestMethods.length > 0) {
+    lines.push(`    methods: ${rule.requestMethods.join(", ").toUpperCase()}`);
+  }
+  return [
+    ...lines,
+    ...describeRuleChanges(rule).map((change) => `    ${change}`),
+  ];
+}
+
+/**
+ * Renders a config as stable, readable lines for diffing. Secret values
+ * are masked, so changing only a secret's value does not show up.
+ */
+export function describeConfig(config: AppliedConfig) {
+  const active = config.profiles.filter((profile) =>
+    config.activeProfileIds.includes(profile.id),
+  );
+  const lines = [
+    `Rules ${config.enabled ? "on" : "off"}`,
+    `Active: ${active.map((profile) => profile.name).join(", ") || "none"}`,
+  ];
+
+  const { windows, startsAt, expiresAt } = config.schedule;
+  for (const window of windows) {
+    const days = window.days.map((day) => WEEKDAY_LABELS[day]).join(" ");
+    lines.push(`Schedule: ${days} ${window.start}–${window.end}`);
+  }
+  if (startsAt !== null) {
+    lines.push(`Starts: ${new Date(startsAt).toISOString()}`);
+  }
+  if (expiresAt !== null) {
+    lines.push(`Expires: ${new Date(expiresAt).toISOString()}`);
+  }
+  if (config.variables.length > 0) {
+    lines.push("Variables", ...describeVariables(config.variables, "  "));
+  }
+
+  for (const profile of config.profiles) {
+    lines.push(
+      "",
+      `Profile ${profile.name}`,
+      ...describeVariables(profile.variables, "  "),
+      ...profile.rules.flatMap(describeRule),
+    );
+  }
+  return lines;
+}
+
+const sameLines = (left: string[], right: string[]) =>
+  left.length === right.length &&
+  left.every((line, index) => line === right[index]);
+
+const headerCount = (rule: RuleConfig) =>
+  rule.headers.length + rule.responseHeaders.length;
+
+function summarizeRules(previous: Profile, next: Profile) {
+  const parts: string[] = [];
+  const previousRules = new Map(previous.rules.map((rule) => [rule.id, rule]));
+  for (const rule of next.rules) {
+    const old = previousRules.get(rule.id);
+    if (!old) {
+      parts.push(`Added rule ${rule.name}`);
+    } else if (old.enabled !== rule.enabled) {
+      parts.push(`Turned ${rule.enabled ? "on" : "off"} rule ${rule.name}`);
+    } else if (!sameLines(describeRule(old), describeRule(rule))) {
+      const delta = headerCount(rule) - headerCount(old);
+      parts.push(
+        delta === 0
+          ? `Changed rule ${rule.name}`
+          : `${rule.name}: ${delta > 0 ? "+" : "−"}${Math.abs(delta)} header(s)`,
+      );
+    }
+  }
+  const nextIds = new Set(next.rules.map((rule) => rule.id));
+  for (const rule of previous.rules) {
+    if (!nextIds.has(rule.id)) {
+      parts.push(`Removed rule ${rule.name}`);
+    }
+  }
+  return parts;
+}
+
+// Masked in describeConfig, so compared separately. Sealed values are
+// re-encrypted on every save, so with any of them sealed there is nothing
+// to compare and null is returned.
+function secretValues(config: AppliedConfig) {
+  const headers = config.profiles
+    .flatMap((profile) => profile.rules)
+    .flatMap((rule) => [...rule.headers, ...rule.responseHeaders])
+    .filter((header) => header.secret);
+  return headers.some((header) => header.sealed)
+    ? null
+    : headers.map((header) => header.value);
+}
+
+/**
+ * Describes what changed between two configs in one short line, or
+ * returns null when nothing did. Extending a temporary session does not
+ * count as a change.
+ */
+export function summarizeChange(previous: AppliedConfig, next: AppliedConfig) {
+  const parts: string[] = [];
+  if (previous.enabled !== next.enabled) {
+    parts.push(`Turned rules ${next.enabled ? "on" : "off"}`);
+  }
+  if ((previous.temporaryUntil === null) !== (next.temporaryUntil === null)) {
+    parts.push(
+      next.temporaryUntil === null
+        ? "Ended the temporary session"
+        : "Started a temporary session",
+    );
+  }
+
+  const previousProfiles = new Map(
+    previous.profiles.map((profile) => [profile.id, profile]),
+  );
+  for (const profile of next.profiles) {
+    const old = previousProfiles.get(profile.id);
+    if (!old) {
+      parts.push(`Added profile ${profile.name}`);
+      continue;
+    }
+    if (old.name !== profile.name) {
+      parts.push(`Renamed profile ${old.name} to ${profile.name}`);
+    }
+    if (
+      !sameLines(
+        describeVariables(old.variables, ""),
+        describeVariables(profile.variables, ""),
+      )
+    ) {
+      parts.push(`Changed variables of ${profile.name}`);
+    }
+    parts.push(...summarizeRules(old, profile));
+  }
+  const nextIds = new Set(next.profiles.map((profile) => profile.id));
+  for (const profile of previous.profiles) {
+    if (!nextIds.has(profile.id)) {
+      parts.push(`Removed profile ${profile.name}`);
+    }
+  }
+
+  const activeNames = (config: AppliedConfig) =>
+    config.profiles
+      .filter((profile) => config.activeProfileIds.includes(profile.id))
+      .map((profile) => profile.name);
+  if (
+    [...previous.activeProfileIds].sort().join() !==
+    [...next.activeProfileIds].sort().join()
+  ) {
+    parts.push(`Active: ${activeNames(next).join(", ") || "none"}`);
+  }
+  if (
+    !sameLines(
+      describeVariables(previous.variables, ""),
+      describeVariables(next.variables, ""),
+    )
+  ) {
+    parts.push("Changed variables");
+  }
+  if (JSON.stringify(previous.schedule) !== JSON.stringify(next.schedule)) {
+    parts.push("Changed schedule");
+  }
+
+  if (parts.length === 0) {
+    const previousSecrets = secretValues(previous);
+    const nextSecrets = secretValues(next);
+    if (!sameLines(describeConfig(previous), describeConfig(next))) {
+      parts.push("Reordered profiles or rules");
+    } else if (
+      previousSecrets &&
+      nextSecrets &&
+      !sameLines(previousSecrets, nextSecrets)
+    ) {
+      parts.push("Changed secret values");
+    } else {
+      return null;
+    }
+  }
+  const rest = parts.length - MAX_SUMMARY_PARTS;
+  return rest > 0
+    ? `${parts.slice(0, MAX_SUMMARY_PARTS).join("; ")} and ${rest} more`
+    : parts.join("; ");
+}
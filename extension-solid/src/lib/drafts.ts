@@ -0,0 +1,834 @@
+import {
+  CONFIG_STORAGE_KEYS,
+  HEADER_NAME_RE,
+  LEGACY_STORAGE_KEYS,
+  RESOURCE_TYPES,
+  SECRET_MASK,
+  createRedirectConfig,
+  readAppliedConfig,
+  type AppliedConfig,
+  type DomainMatchMode,
+  type HeaderConfig,
+  type HeaderOperation,
+  type Profile,
+  type QueryParam,
+  type RedirectConfig,
+  type RedirectMode,
+  type RequestFilters,
+  type RuleConfig,
+  type RuleKind,
+  type VariableConfig,
+} from "./config.ts";
+import {
+  buildVariableMap,
+  checkRuleIdBlock,
+  findTemplateError,
+  isAllowExclusion,
+  splitScopeEntry,
+  stripWildcardPrefix,
+} from "./rules.ts";
+import {
+  CONFIG_VERSION_KEY,
+  formatSchemaError,
+  loadConfig,
+  migrateConfig,
+} from "./schema.ts";
+import { readSecretKey, unsealProfiles } from "./secrets.ts";
+import { isRegexSupported, storageGet } from "./chrome.ts";
+import {
+  EXCLUSION_PREFIX,
+  SCOPE_PATH_RE,
+  isValidDomain,
+  parseDomains,
+  validateScopeEntry,
+} from "./scope.ts";
+
+export type HeaderTarget = "request" | "response";
+
+/** Editable form of a redirect; query params are kept as raw text input. */
+export interface RedirectDraft {
+  mode: RedirectMode;
+  url: string;
+  regexSubstitution: string;
+  scheme: string;
+  host: string;
+  port: string;
+  path: string;
+  addParamsInput: string;
+  removeParamsInput: string;
+}
+
+/** Editable form of a rule; the scope is kept as raw textarea input. */
+export interface RuleDraft extends RequestFilters {
+  id: number;
+  name: string;
+  enabled: boolean;
+  kind: RuleKind;
+  redirect: RedirectDraft;
+  headers: HeaderConfig[];
+  responseHeaders: HeaderConfig[];
+  domainInput: string;
+  domainMatchMode: DomainMatchMode;
+  initiatorInput: string;
+  excludedInitiatorInput: string;
+}
+
+export interface ProfileDraft {
+  id: string;
+  name: string;
+  rules: RuleDraft[];
+  variables: VariableConfig[];
+}
+
+type Validated<T> = ({ ok: true } & T) | { ok: false; error: string };
+
+const VARIABLE_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const HEADER_OPERATIONS: HeaderOperation[] = ["set", "append", "remove"];
+const PORT_RE = /^\d{1,5}$/;
+// declarativeNetRequest only allows appending to these request headers.
+const APPENDABLE_REQUEST_HEADERS = new Set([
+  "accept",
+  "accept-encoding",
+  "accept-language",
+  "access-control-request-headers",
+  "cache-control",
+  "connection",
+  "content-language",
+  "cookie",
+  "forwarded",
+  "if-match",
+  "if-none-match",
+  "keep-alive",
+  "range",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "user-agent",
+  "via",
+  "want-digest",
+  "x-forwarded-for",
+]);
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+// Header rows are mutated in place while typing, so every rule needs its
+// own row objects rather than a shared default array.
+export function createDefaultHeaders(): HeaderConfig[] {
+  return [{ key: "", value: "", operation: "set" }];
+}
+
+function redirectToDraft(redirect: RedirectConfig): RedirectDraft {
+  const { transform } = redirect;
+  return {
+    mode: redirect.mode,
+    url: redirect.url,
+    regexSubstitution: redirect.regexSubstitution,
+    scheme: transform.scheme,
+    host: transform.host,
+    port: transform.port,
+    path: transform.path,
+    addParamsInput: transform.addQueryParams
+      .map((param) => `${param.key}=${param.value}`)
+      .join("&"),
+    removeParamsInput: transform.removeQueryParams.join(", "),
+  };
+}
+
+export function createRuleDraft(id: number, name: string): RuleDraft {
+  return {
+    id,
+    name,
+    enabled: true,
+    kind: "headers",
+    redirect: redirectToDraft(createRedirectConfig()),
+    headers: createDefaultHeaders(),
+    responseHeaders: createDefaultHeaders(),
+    domainInput: "",
+    domainMatchMode: "include_subdomains",
+    initiatorInput: "",
+    excludedInitiatorInput: "",
+    resourceTypes: [],
+    resourceTypeMode: "include",
+    requestMethods: [],
+  };
+}
+
+export function createProfileDraft(name: string, ruleId: number): ProfileDraft {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    rules: [createRuleDraft(ruleId, "Rule 1")],
+    variables: [],
+  };
+}
+
+function toHeaderDrafts(headers: HeaderConfig[]) {
+  return headers.length > 0
+    ? headers.map((header) => ({ ...header }))
+    : createDefaultHeaders();
+}
+
+function ruleToDraft(rule: RuleConfig): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    kind: rule.kind,
+    redirect: redirectToDraft(rule.redirect),
+    headers: toHeaderDrafts(rule.headers),
+    responseHeaders: toHeaderDrafts(rule.responseHeaders),
+    domainInput: [
+      ...rule.domains,
+      ...rule.excludedDomains.map((entry) => `${EXCLUSION_PREFIX}${entry}`),
+    ].join("\n"),
+    domainMatchMode: rule.domainMatchMode,
+    initiatorInput: rule.initiatorDomains.join(", "),
+    excludedInitiatorInput: rule.excludedInitiatorDomains.join(", "),
+    resourceTypes: rule.resourceTypes,
+    resourceTypeMode: rule.resourceTypeMode,
+    requestMethods: rule.requestMethods,
+  };
+}
+
+export function copyVariables(variables: VariableConfig[]) {
+  return variables.map((variable) => ({ ...variable }));
+}
+
+export function profileToDraft(profile: Profile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    rules: profile.rules.map(ruleToDraft),
+    variables: copyVariables(profile.variables),
+  };
+}
+
+export function copyRuleDraft(
+  rule: RuleDraft,
+  id: number,
+  name: string,
+): RuleDraft {
+  return {
+    ...rule,
+    id,
+    name,
+    headers: rule.headers.map((header) => ({ ...header })),
+    responseHeaders: rule.responseHeaders.map((header) => ({ ...header })),
+  };
+}
+
+export const isExclusion = (entry: string) =>
+  entry.startsWith(EXCLUSION_PREFIX);
+
+export const splitExclusions = (entries: string[]) => ({
+  domains: entries.filter((entry) => !isExclusion(entry)),
+  excludedDomains: entries
+    .filter(isExclusion)
+    .map((entry) => entry.slice(EXCLUSION_PREFIX.length)),
+});
+
+// DNR initiator lists always include subdomains, so `*.` adds nothing.
+export const parseInitiators = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((item) => stripWildcardPrefix(item.trim().toLowerCase()))
+        .filter((item) => item.length > 0),
+    ),
+  );
+
+const normalizeHeaders = (rawHeaders: HeaderConfig[]) =>
+  rawHeaders
+    .filter((header) => header.key.trim() !== "" || header.value.trim() !== "")
+    .map((header) => ({
+      key: header.key.trim(),
+      value: header.operation === "remove" ? "" : header.value.trim(),
+      operation: header.operation,
+      ...(header.secret && { secret: true }),
+      ...(header.sealed && { sealed: header.sealed }),
+    }));
+
+/**
+ * Writes headers as `Key: Value` lines for the raw text editor: appends are
+ * prefixed with `+`, removals are `-Key`, and secret values are masked.
+ */
+export function formatHeaderText(headers: HeaderConfig[]) {
+  return normalizeHeaders(headers)
+    .map((header) => {
+      if (header.operation === "remove") {
+        return `-${header.key}`;
+      }
+      const value = header.secret ? SECRET_MASK : header.value;
+      return `${header.operation === "append" ? "+" : ""}${header.key}: ${value}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Reads `formatHeaderText` output back. Secrets follow their key, and a
+ * masked value keeps the secret it replaced, sealed or not.
+ */
+export function parseHeaderText(
+  text: string,
+  previous: HeaderConfig[],
+): Validated<{ headers: HeaderConfig[] }> {
+  const headers: HeaderConfig[] = [];
+  for (const [index, rawLine] of text.split("\n").entries()) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    const operation: HeaderOperation = line.startsWith("-")
+      ? "remove"
+      : line.startsWith("+")
+        ? "append"
+        : "set";
+    const body = operation === "set" ? line : line.slice(1).trim();
+    const separator = body.indexOf(":");
+    if (separator === -1 && operation !== "remove") {
+      return {
+        ok: false,
+        error: `Line ${index + 1}: expected "Key: Value", got ${line}`,
+      };
+    }
+
+    const key = (separator === -1 ? body : body.slice(0, separator)).trim();
+    const value =
+      operation === "remove" || separator === -1
+        ? ""
+        : body.slice(separator + 1).trim();
+    const secret = previous.find(
+      (header) =>
+        header.secret && header.key.toLowerCase() === key.toLowerCase(),
+    );
+    if (!secret) {
+      headers.push({ key, value, operation });
+    } else if (value === SECRET_MASK) {
+      headers.push({ ...secret, operation });
+    } else {
+      headers.push({ key, value, operation, secret: true });
+    }
+  }
+
+  return {
+    ok: true,
+    headers: headers.length > 0 ? headers : createDefaultHeaders(),
+  };
+}
+
+export function validateVariables(
+  rawVariables: VariableConfig[],
+): Validated<{ variables: VariableConfig[] }> {
+  const normalizedVariables = rawVariables
+    .filter(
+      (variable) => variable.name.trim() !== "" || variable.value.trim() !== "",
+    )
+    .map((variable) => ({
+      name: variable.name.trim(),
+      value: variable.value.trim(),
+    }));
+  const names = new Set<string>();
+
+  for (const variable of normalizedVariables) {
+    if (!VARIABLE_NAME_RE.test(variable.name)) {
+      return {
+        ok: false,
+        error: `Invalid variable name: ${variable.name || "(empty)"}`,
+      };
+    }
+
+    if (names.has(variable.name)) {
+      return { ok: false, error: `Duplicate variable: ${variable.name}` };
+    }
+    names.add(variable.name);
+
+    if (variable.value === "") {
+      return { ok: false, error: `Variable ${variable.name} needs a value.` };
+    }
+
+    // Values are substituted once, so nested templates would leak through.
+    if (/[\r\n]/.test(variable.value) || variable.value.includes("{{")) {
+      return {
+        ok: false,
+        error: `Invalid value for variable ${variable.name}: newlines and templates are not allowed.`,
+      };
+    }
+  }
+
+  return { ok: true, variables: normalizedVariables };
+}
+
+function validateHeaders(
+  rawHeaders: HeaderConfig[],
+  target: HeaderTarget,
+  variableMap: Map<string, string>,
+): Validated<{ headers: HeaderConfig[] }> {
+  const normalizedHeaders = normalizeHeaders(rawHeaders);
+  const keySet = new Set<string>();
+  const label = target === "request" ? "Header" : "Response header";
+
+  for (const header of normalizedHeaders) {
+    if (header.key === "") {
+      return {
+        ok: false,
+        error: `All non-empty ${label.toLowerCase()}s must include a key.`,
+      };
+    }
+
+    if (!HEADER_NAME_RE.test(header.key)) {
+      return {
+        ok: false,
+        error: `Invalid ${label.toLowerCase()} key: ${header.key}`,
+      };
+    }
+
+    // Locked secrets keep their stored value until they are unlocked.
+    if (
+      header.operation !== "remove" &&
+      header.value === "" &&
+      !header.sealed
+    ) {
+      return {
+        ok: false,
+        error: `${label} ${header.key} needs a value unless it is removed.`,
+      };
+    }
+
+    // Response headers can be appended to freely; request headers cannot.
+    if (
+      target === "request" &&
+      header.operation === "append" &&
+      !APPENDABLE_REQUEST_HEADERS.has(header.key.toLowerCase())
+    ) {
+      return {
+        ok: false,
+        error: `${label} ${header.key} cannot be appended to; use set instead.`,
+      };
+    }
+
+    if (/[\r\n]/.test(header.value)) {
+      return {
+        ok: false,
+        error: `Invalid ${label.toLowerCase()} value for ${header.key}: newline characters are not allowed.`,
+      };
+    }
+
+    const templateError = findTemplateError(header.value, variableMap);
+    if (templateError) {
+      return {
+        ok: false,
+        error: `Invalid ${label.toLowerCase()} value for ${header.key}: ${templateError}.`,
+      };
+    }
+
+    const normalizedKey = header.key.toLowerCase();
+    if (keySet.has(normalizedKey)) {
+      return {
+        ok: false,
+        error: `Duplicate ${label.toLowerCase()} key: ${header.key}`,
+      };
+    }
+    keySet.add(normalizedKey);
+  }
+
+  return { ok: true, headers: normalizedHeaders };
+}
+
+function parseQueryParams(value: string): Validated<{ params: QueryParam[] }> {
+  const params: QueryParam[] = [];
+  for (const part of value.split(/[&\n]/)) {
+    const trimmed = part.trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const separator = trimmed.indexOf("=");
+    const key = (
+      separator === -1 ? trimmed : trimmed.slice(0, separator)
+    ).trim();
+    if (key === "") {
+      return { ok: false, error: `Query param is missing a key: ${trimmed}` };
+    }
+    params.push({
+      key,
+      value: separator === -1 ? "" : trimmed.slice(separator + 1).trim(),
+    });
+  }
+  return { ok: true, params };
+}
+
+function validateRedirect(
+  draft: RuleDraft,
+): Validated<{ redirect: RedirectConfig }> {
+  const redirect = createRedirectConfig();
+  const { mode } = draft.redirect;
+  redirect.mode = mode;
+
+  if (mode === "url") {
+    const url = draft.redirect.url.trim();
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { ok: false, error: `Invalid redirect URL: ${url}` };
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return { ok: false, error: "Redirect URL must use http or https." };
+    }
+    redirect.url = url;
+    return { ok: true, redirect };
+  }
+
+  if (mode === "regex") {
+    const substitution = draft.redirect.regexSubstitution.trim();
+    if (draft.domainMatchMode !== "regex") {
+      return {
+        ok: false,
+        error: "Regex substitution requires the Regex scope mode.",
+      };
+    }
+    if (substitution === "" || /\s/.test(substitution)) {
+      return {
+        ok: false,
+        error: "Regex substitution must be a non-empty URL without spaces.",
+      };
+    }
+    redirect.regexSubstitution = substitution;
+    return { ok: true, redirect };
+  }
+
+  const scheme = draft.redirect.scheme.trim().toLowerCase();
+  if (scheme !== "" && scheme !== "http" && scheme !== "https") {
+    return { ok: false, error: "Scheme must be http or https." };
+  }
+  const host = draft.redirect.host.trim().toLowerCase();
+  if (host !== "" && (host.startsWith("*.") || !isValidDomain(host))) {
+    return { ok: false, error: `Invalid redirect host: ${host}` };
+  }
+  const port = draft.redirect.port.trim();
+  if (port !== "" && (!PORT_RE.test(port) || Number(port) > 65535)) {
+    return { ok: false, error: `Invalid redirect port: ${port}` };
+  }
+  const path = draft.redirect.path.trim();
+  if (path !== "" && !/^\/\S*$/.test(path)) {
+    return {
+      ok: false,
+      error: "Redirect path must start with / and contain no spaces.",
+    };
+  }
+  const addResult = parseQueryParams(draft.redirect.addParamsInput);
+  if (!addResult.ok) {
+    return addResult;
+  }
+  const removeQueryParams = Array.from(
+    new Set(
+      draft.redirect.removeParamsInput
+        .split(/[,\n]/)
+        .map((key) => key.trim())
+        .filter((key) => key !== ""),
+    ),
+  );
+
+  if (
+    scheme === "" &&
+    host === "" &&
+    port === "" &&
+    path === "" &&
+    addResult.params.length === 0 &&
+    removeQueryParams.length === 0
+  ) {
+    return { ok: false, error: "URL transform does not change anything." };
+  }
+
+  redirect.transform = {
+    scheme,
+    host,
+    port,
+    path,
+    addQueryParams: addResult.params,
+    removeQueryParams,
+  };
+  return { ok: true, redirect };
+}
+
+function validateRule(
+  draft: RuleDraft,
+  variableMap: Map<string, string>,
+): Validated<{ rule: RuleConfig; warnings: string[] }> {
+  if (draft.name.trim() === "") {
+    return { ok: false, error: "Rule name cannot be empty." };
+  }
+
+  // Header rows of redirect and block rules are kept in the draft but
+  // not saved.
+  const isRedirect = draft.kind === "redirect";
+  const hasHeaders = draft.kind === "headers";
+  const requestResult = !hasHeaders
+    ? { ok: true as const, headers: [] }
+    : validateHeaders(draft.headers, "request", variableMap);
+  if (!requestResult.ok) {
+    return requestResult;
+  }
+
+  const responseResult = !hasHeaders
+    ? { ok: true as const, headers: [] }
+    : validateHeaders(draft.responseHeaders, "response", variableMap);
+  if (!responseResult.ok) {
+    return responseResult;
+  }
+
+  const redirectResult = isRedirect
+    ? validateRedirect(draft)
+    : { ok: true as const, redirect: createRedirectConfig() };
+  if (!redirectResult.ok) {
+    return redirectResult;
+  }
+
+  const { domains, excludedDomains } = splitExclusions(
+    parseDomains(draft.domainInput, draft.domainMatchMode),
+  );
+  // Redirecting or blocking every request would break all browsing.
+  if (!hasHeaders && domains.length === 0) {
+    return {
+      ok: false,
+      error: `${isRedirect ? "Redirect" : "Block"} rules need at least one scope entry.`,
+    };
+  }
+  if (
+    draft.resourceTypeMode === "exclude" &&
+    draft.resourceTypes.length === RESOURCE_TYPES.length
+  ) {
+    return { ok: false, error: "Rule excludes every resource type." };
+  }
+
+  for (const domain of domains) {
+    const scopeError = validateScopeEntry(domain, draft.domainMatchMode);
+    if (scopeError) {
+      return { ok: false, error: scopeError };
+    }
+  }
+
+  // Regex exclusions are checked by checkRegexSupport like the scope.
+  // Excluded hosts cover their subdomains, like excludedRequestDomains.
+  const checkedExclusions =
+    draft.domainMatchMode === "regex" ? [] : excludedDomains;
+  for (const entry of checkedExclusions) {
+    const { host, path } = splitScopeEntry(entry);
+    if (host !== "") {
+      const scopeError = validateScopeEntry(entry, "include_subdomains");
+      if (scopeError) {
+        return { ok: false, error: scopeError };
+      }
+    } else if (!SCOPE_PATH_RE.test(path)) {
+      return { ok: false, error: `Invalid path exclusion: !${entry}` };
+    } else if (domains.length === 0) {
+      return {
+        ok: false,
+        error: `Path exclusion !${entry} needs at least one scope entry.`,
+      };
+    }
+  }
+
+  const initiatorDomains = parseInitiators(draft.initiatorInput);
+  const excludedInitiatorDomains = parseInitiators(
+    draft.excludedInitiatorInput,
+  );
+  for (const domain of [...initiatorDomains, ...excludedInitiatorDomains]) {
+    if (!isValidDomain(domain)) {
+      return { ok: false, error: `Invalid initiator domain: ${domain}` };
+    }
+  }
+  const conflict = initiatorDomains.find((domain) =>
+    excludedInitiatorDomains.includes(domain),
+  );
+  if (conflict) {
+    return {
+      ok: false,
+      error: `Initiator is both allowed and excluded: ${conflict}`,
+    };
+  }
+
+  const rule: RuleConfig = {
+    id: draft.id,
+    name: draft.name.trim(),
+    enabled: draft.enabled,
+    kind: draft.kind,
+    headers: requestResult.headers,
+    responseHeaders: responseResult.headers,
+    domains,
+    excludedDomains,
+    domainMatchMode: draft.domainMatchMode,
+    resourceTypes: draft.resourceTypes,
+    resourceTypeMode: draft.resourceTypeMode,
+    requestMethods: draft.requestMethods,
+    initiatorDomains,
+    excludedInitiatorDomains,
+    redirect: redirectResult.redirect,
+  };
+
+  const blockError = checkRuleIdBlock(rule);
+  if (blockError) {
+    return { ok: false, error: blockError };
+  }
+
+  // Saved anyway, since a host-only exclusion cannot express these.
+  const warnings = rule.enabled
+    ? excludedDomains
+        .filter((entry) => isAllowExclusion(entry, rule.domainMatchMode))
+        .map(
+          (entry) =>
+            `Exclusion !${entry} also turns off every other rule on the requests it matches.`,
+        )
+    : [];
+  return { ok: true, rule, warnings };
+}
+
+export function validateProfileName(
+  name: string,
+  profiles: ProfileDraft[],
+  excludeId?: string,
+) {
+  const trimmed = name.trim();
+  if (trimmed === "") {
+    return "Profile name cannot be empty.";
+  }
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+    return `Profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters.`;
+  }
+
+  const lowerName = trimmed.toLowerCase();
+  const duplicate = profiles.some(
+    (profile) =>
+      profile.id !== excludeId &&
+      profile.name.trim().toLowerCase() === lowerName,
+  );
+  return duplicate ? `Duplicate profile name: ${trimmed}` : null;
+}
+
+/**
+ * Validates the edited profiles and global variables and turns them into
+ * the config the background worker stores. Shared by the popup and the
+ * options page so both accept exactly the same input.
+ */
+export function validateProfiles(
+  drafts: ProfileDraft[],
+  variables: VariableConfig[],
+): Validated<{
+  profiles: Profile[];
+  variables: VariableConfig[];
+  warnings: string[];
+}> {
+  const validProfiles: Profile[] = [];
+  const warnings: string[] = [];
+
+  const globalResult = validateVariables(variables);
+  if (!globalResult.ok) {
+    return { ok: false, error: `Global variables: ${globalResult.error}` };
+  }
+
+  for (const draft of drafts) {
+    const nameError = validateProfileName(draft.name, drafts, draft.id);
+    if (nameError) {
+      return { ok: false, error: nameError };
+    }
+
+    const variableResult = validateVariables(draft.variables);
+    if (!variableResult.ok) {
+      return {
+        ok: false,
+        error: `${draft.name.trim()}: ${variableResult.error}`,
+      };
+    }
+    const variableMap = buildVariableMap(
+      globalResult.variables,
+      variableResult.variables,
+    );
+
+    const validRules: RuleConfig[] = [];
+    for (const ruleDraft of draft.rules) {
+      const result = validateRule(ruleDraft, variableMap);
+      if (!result.ok) {
+        return {
+          ok: false,
+          error: `${draft.name.trim()} / ${ruleDraft.name.trim() || "Untitled rule"}: ${result.error}`,
+        };
+      }
+      validRules.push(result.rule);
+      warnings.push(
+        ...result.warnings.map(
+          (warning) => `${draft.name.trim()} / ${result.rule.name}: ${warning}`,
+        ),
+      );
+    }
+    validProfiles.push({
+      id: draft.id,
+      name: draft.name.trim(),
+      rules: validRules,
+      variables: variableResult.variables,
+    });
+  }
+
+  return {
+    ok: true,
+    profiles: validProfiles,
+    variables: globalResult.variables,
+    warnings,
+  };
+}
+
+export async function checkRegexSupport(validProfiles: Profile[]) {
+  for (const profile of validProfiles) {
+    for (const rule of profile.rules) {
+      if (rule.domainMatchMode !== "regex") {
+        continue;
+      }
+
+      for (const regex of [...rule.domains, ...rule.excludedDomains]) {
+        const result = await isRegexSupported(regex);
+        if (!result.isSupported) {
+          const reason =
+            result.reason === "memoryLimitExceeded"
+              ? "too complex"
+              : "syntax error";
+          return `${profile.name} / ${rule.name}: Unsupported regex (${reason}): ${regex}`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the stored config for editing, with secrets decrypted while
+ * unlocked. An invalid config is read leniently and reported in `error`.
+ */
+export async function loadEditableConfig(): Promise<{
+  config: AppliedConfig;
+  error: string | null;
+}> {
+  const stored = (await storageGet([
+    ...CONFIG_STORAGE_KEYS,
+    ...LEGACY_STORAGE_KEYS,
+    CONFIG_VERSION_KEY,
+  ])) as Record<string, unknown>;
+  const result = loadConfig(stored);
+  let error: string | null = null;
+  if (!result.ok) {
+    const [first, ...rest] = result.errors;
+    error = `Stored config is invalid at ${formatSchemaError(first)}${
+      rest.length > 0 ? ` (+${rest.length} more)` : ""
+    } Saving will replace it.`;
+  }
+  const config = result.ok
+    ? result.config
+    : readAppliedConfig(migrateConfig(stored));
+  return {
+    config: {
+      ...config,
+      profiles: await unsealProfiles(config.profiles, await readSecretKey()),
+    },
+    error,
+  };
+}
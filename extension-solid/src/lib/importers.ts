@@ -0,0 +1,560 @@
+import {
+  HEADER_NAME_RE,
+  readProfiles,
+  type HeaderConfig,
+  type Profile,
+} from "./config.ts";
+import { loadConfig, migrateConfig, type SchemaError } from "./schema.ts";
+import { redactSecrets } from "./secrets.ts";
+
+export type ImportFormat = "config" | "modheader" | "har" | "curl" | "text";
+
+export interface DroppedImportItem {
+  item: string;
+  reason: string;
+}
+
+/** What an import would add, before the user chooses to merge or replace. */
+export interface ImportPreview {
+  format: ImportFormat;
+  profiles: Profile[];
+  dropped: DroppedImportItem[];
+  /**
+   * Top-level fields of our own exports, migrated to the current version
+   * and only used when replacing.
+   */
+  config: Record<string, unknown> | null;
+  /** Schema problems in our own exports; such imports cannot be applied. */
+  errors: SchemaError[];
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  config: "Header Modifier config",
+  modheader: "ModHeader profiles",
+  har: "HAR file",
+  curl: "cURL command",
+  text: "Header text",
+};
+
+// The browser sets these itself, and hop-by-hop ones only describe a single
+// connection, so a rule overriding them breaks requests.
+const BROWSER_MANAGED_HEADERS = new Set([
+  "host",
+  "content-length",
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+// cURL options that consume the following argument.
+const CURL_VALUE_OPTIONS = new Set([
+  "-A",
+  "--user-agent",
+  "-b",
+  "--cookie",
+  "-d",
+  "--data",
+  "--data-ascii",
+  "--data-binary",
+  "--data-raw",
+  "--data-urlencode",
+  "-e",
+  "--referer",
+  "-F",
+  "--form",
+  "-H",
+  "--header",
+  "-m",
+  "--max-time",
+  "--connect-timeout",
+  "-o",
+  "--output",
+  "-u",
+  "--user",
+  "--url",
+  "-x",
+  "--proxy",
+  "-X",
+  "--request",
+]);
+const CURL_HEADER_OPTIONS: Record<string, string> = {
+  "-A": "User-Agent",
+  "--user-agent": "User-Agent",
+  "-b": "Cookie",
+  "--cookie": "Cookie",
+  "-e": "Referer",
+  "--referer": "Referer",
+};
+
+function asRecord(value: unknown) {
+  return (typeof value === "object" && value !== null ? value : {}) as Record<
+    string,
+    unknown
+  >;
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Collects headers, dropping invalid, browser-managed and conflicting
+ * ones. Repeating a header with the same value is not an error.
+ */
+function createHeaderCollector(dropped: DroppedImportItem[]) {
+  const headers: HeaderConfig[] = [];
+
+  const add = (key: string, value: string, source = `${key}: ${value}`) => {
+    const name = key.trim();
+    const lowerName = name.toLowerCase();
+    if (name === "" && value.trim() === "") {
+      return;
+    }
+    if (name === "") {
+      dropped.push({ item: source, reason: "Header has no name." });
+    } else if (name.startsWith(":")) {
+      dropped.push({ item: source, reason: "HTTP/2 pseudo-header." });
+    } else if (!HEADER_NAME_RE.test(name)) {
+      dropped.push({ item: source, reason: "Invalid header name." });
+    } else if (BROWSER_MANAGED_HEADERS.has(lowerName)) {
+      dropped.push({ item: source, reason: "Set by the browser itself." });
+    } else {
+      const existing = headers.find(
+        (header) => header.key.toLowerCase() === lowerName,
+      );
+      if (!existing) {
+        headers.push({ key: name, value: value.trim(), operation: "set" });
+      } else if (existing.value !== value.trim()) {
+        dropped.push({
+          item: source,
+          reason: `Conflicts with ${existing.key}: ${existing.value}.`,
+        });
+      }
+    }
+  };
+
+  return { headers, add };
+}
+
+function parseHeaderLine(line: string) {
+  // Leading colons belong to HTTP/2 pseudo-headers such as `:authority`.
+  const separator = line.indexOf(":", line.startsWith(":") ? 1 : 0);
+  return separator === -1
+    ? null
+    : { key: line.slice(0, separator), value: line.slice(separator + 1) };
+}
+
+function readHost(url: string, dropped: DroppedImportItem[]) {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol === "http:" || protocol === "https:") {
+      return hostname.toLowerCase();
+    }
+  } catch {
+    // Reported below.
+  }
+  dropped.push({ item: url, reason: "Not an http(s) URL; scope not set." });
+  return null;
+}
+
+function toProfiles(profiles: unknown[]) {
+  return readProfiles({ profiles });
+}
+
+// HAR entries repeat the same problems, so each is reported once.
+function uniqueDropped(dropped: DroppedImportItem[]) {
+  const seen = new Set<string>();
+  return dropped.filter(({ item, reason }) => {
+    const key = `${item}\n${reason}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function parseModHeader(
+  data: unknown[],
+  dropped: DroppedImportItem[],
+): Profile[] {
+  const profiles = data.map(asRecord).map((profile, index) => {
+    const name = readString(profile.title).trim() || `ModHeader ${index + 1}`;
+
+    const readHeaders = (value: unknown) => {
+      const collector = createHeaderCollector(dropped);
+      for (const header of Array.isArray(value) ? value.map(asRecord) : []) {
+        const key = readString(header.name);
+        const item = `${name}: ${key}`;
+        if (header.enabled === false) {
+          dropped.push({ item, reason: "Disabled in ModHeader." });
+        } else {
+          collector.add(key, readString(header.value), item);
+        }
+      }
+      return collector.headers;
+    };
+
+    // ModHeader URL filters are regexes, so they map onto the regex scope.
+    const readFilters = (value: unknown) =>
+      (Array.isArray(value) ? value.map(asRecord) : []).flatMap((filter) => {
+        const regex = readString(filter.urlRegex).trim();
+        if (regex === "") {
+          return [];
+        }
+        if (filter.enabled === false) {
+          dropped.push({
+            item: `${name}: ${regex}`,
+            reason: "Disabled in ModHeader.",
+          });
+          return [];
+        }
+        return [regex];
+      });
+
+    const domains = readFilters(profile.urlFilters);
+    const excludedDomains = readFilters(profile.excludeUrlFilters);
+    return {
+      name,
+      rules: [
+        {
+          name: "Imported headers",
+          headers: readHeaders(profile.headers),
+          responseHeaders: readHeaders(profile.respHeaders),
+          domains,
+          excludedDomains,
+          domainMatchMode:
+            domains.length > 0 || excludedDomains.length > 0
+              ? "regex"
+              : "include_subdomains",
+        },
+      ],
+    };
+  });
+
+  return toProfiles(profiles);
+}
+
+/**
+ * Turns each HAR request into its own rule scoped to the request's host,
+ * so headers sent to different hosts never overwrite each other. Requests
+ * sending the same headers to the same host share one rule.
+ */
+function parseHar(data: Record<string, unknown>, dropped: DroppedImportItem[]) {
+  const entries = asRecord(data.log).entries as unknown[];
+  const rules: unknown[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries.map(asRecord)) {
+    const request = asRecord(entry.request);
+    const url = readString(request.url);
+    let target: URL | null = null;
+    try {
+      target = new URL(url);
+    } catch {
+      // Reported below.
+    }
+    if (
+      !target ||
+      (target.protocol !== "http:" && target.protocol !== "https:")
+    ) {
+      dropped.push({ item: url, reason: "Not an http(s) request; skipped." });
+      continue;
+    }
+
+    const collector = createHeaderCollector(dropped);
+    const headers = Array.isArray(request.headers) ? request.headers : [];
+    for (const header of headers.map(asRecord)) {
+      collector.add(readString(header.name), readString(header.value));
+    }
+    const host = target.hostname.toLowerCase();
+    const key = JSON.stringify([host, collector.headers]);
+    if (collector.headers.length === 0 || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    rules.push({
+      name: `${readString(request.method) || "GET"} ${host}${target.pathname}`,
+      headers: collector.headers,
+      domains: [host],
+    });
+  }
+
+  if (rules.length === 0) {
+    throw new Error("No request headers found in the HAR file.");
+  }
+  return toProfiles([{ name: "HAR import", rules }]);
+}
+
+/** Splits a shell command into words, as bash would for simple commands. */
+function tokenizeShell(text: string) {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "\\" && text[index + 1] === "\n") {
+      index += 2;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = "";
+        inToken = false;
+      }
+      index += 1;
+    } else if (char === "'") {
+      const end = text.indexOf("'", index + 1);
+      const stop = end === -1 ? text.length : end;
+      current += text.slice(index + 1, stop);
+      inToken = true;
+      index = stop + 1;
+    } else if (char === "$" && text[index + 1] === "'") {
+      // ANSI-C quoting, used by DevTools for values with special characters.
+      index += 2;
+      while (index < text.length && text[index] !== "'") {
+        if (text[index] === "\\" && index + 1 < text.length) {
+          const escaped = text[index + 1];
+          current += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          index += 2;
+        } else {
+          current += text[index];
+          index += 1;
+        }
+      }
+      inToken = true;
+      index += 1;
+    } else if (char === '"') {
+      index += 1;
+      while (index < text.length && text[index] !== '"') {
+        if (text[index] === "\\" && '"\\$`'.includes(text[index + 1])) {
+          index += 1;
+        }
+        current += text[index];
+        index += 1;
+      }
+      inToken = true;
+      index += 1;
+    } else {
+      if (char === "\\" && index + 1 < text.length) {
+        index += 1;
+      }
+      current += text[index];
+      inToken = true;
+      index += 1;
+    }
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+function parseCurl(text: string, dropped: DroppedImportItem[]) {
+  const tokens = tokenizeShell(text);
+  const collector = createHeaderCollector(dropped);
+  const hosts = new Set<string>();
+
+  const addUrl = (url: string) => {
+    const host = readHost(url, dropped);
+    if (host) {
+      hosts.add(host);
+    }
+  };
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token === "curl") {
+      continue;
+    }
+
+    // `-H'Key: value'` and `--header=Key: value` carry the value inline.
+    const inline =
+      /^(-[A-Za-z])(.+)$/.exec(token) ?? /^(--[a-z-]+)=(.*)$/.exec(token);
+    const option =
+      inline && CURL_VALUE_OPTIONS.has(inline[1]) ? inline[1] : token;
+    if (!option.startsWith("-")) {
+      addUrl(token);
+      continue;
+    }
+    if (!CURL_VALUE_OPTIONS.has(option)) {
+      continue;
+    }
+
+    let value = inline?.[2] ?? "";
+    if (option === token) {
+      index += 1;
+      value = tokens[index] ?? "";
+    }
+    if (option === "-H" || option === "--header") {
+      const header = parseHeaderLine(value);
+      if (header) {
+        collector.add(header.key, header.value);
+      } else {
+        dropped.push({ item: value, reason: "Not a Key: Value header." });
+      }
+    } else if (option in CURL_HEADER_OPTIONS) {
+      // `-b` also accepts a cookie file, which cannot be imported.
+      if ((option === "-b" || option === "--cookie") && !value.includes("=")) {
+        dropped.push({ item: value, reason: "Cookie files are not read." });
+      } else {
+        collector.add(CURL_HEADER_OPTIONS[option], value);
+      }
+    } else if (option === "--url") {
+      addUrl(value);
+    } else if (option === "-X" || option === "--request") {
+      dropped.push({
+        item: `${option} ${value}`,
+        reason: "Method not imported; the rule applies to all methods.",
+      });
+    } else if (option.startsWith("-d") || option.startsWith("--data")) {
+      dropped.push({
+        item: `${option} ${value}`,
+        reason: "Request bodies cannot be modified.",
+      });
+    } else if (option === "-u" || option === "--user") {
+      dropped.push({
+        item: option,
+        reason: "Credentials are not imported; add an Authorization header.",
+      });
+    } else {
+      dropped.push({ item: option, reason: "Option has no rule equivalent." });
+    }
+  }
+
+  return toProfiles([
+    {
+      name: "cURL import",
+      rules: [
+        {
+          name: "Request headers",
+          headers: collector.headers,
+          domains: [...hosts],
+        },
+      ],
+    },
+  ]);
+}
+
+function parseHeaderText(text: string, dropped: DroppedImportItem[]) {
+  const collector = createHeaderCollector(dropped);
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "") {
+      continue;
+    }
+    const header = parseHeaderLine(line);
+    if (header) {
+      collector.add(header.key, header.value, line);
+    } else {
+      dropped.push({ item: line, reason: "Not a Key: Value line." });
+    }
+  }
+
+  return toProfiles([
+    {
+      name: "Pasted headers",
+      rules: [{ name: "Request headers", headers: collector.headers }],
+    },
+  ]);
+}
+
+/**
+ * Detects the format of pasted or uploaded text and converts it to
+ * profiles. Throws when nothing importable is found.
+ */
+export function parseImport(text: string): ImportPreview {
+  const trimmed = text.trim();
+  if (trimmed === "") {
+    throw new Error("Nothing to import.");
+  }
+
+  const dropped: DroppedImportItem[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    data = undefined;
+  }
+
+  if (data === undefined) {
+    const isCurl = /^curl\s/.test(trimmed);
+    const profiles = isCurl
+      ? parseCurl(trimmed, dropped)
+      : parseHeaderText(trimmed, dropped);
+    if (profiles[0].rules[0].headers.length === 0) {
+      throw new Error(
+        isCurl
+          ? "No headers found in the cURL command."
+          : "Expected JSON, a cURL command or Key: Value lines.",
+      );
+    }
+    return {
+      format: isCurl ? "curl" : "text",
+      profiles,
+      dropped,
+      config: null,
+      errors: [],
+    };
+  }
+
+  if (Array.isArray(data)) {
+    if (data.length === 0) {
+      throw new Error("No ModHeader profiles found.");
+    }
+    return {
+      format: "modheader",
+      profiles: parseModHeader(data, dropped),
+      dropped,
+      config: null,
+      errors: [],
+    };
+  }
+  if (typeof data !== "object" || data === null) {
+    throw new Error("Config must be a JSON object.");
+  }
+
+  const record = asRecord(data);
+  if (Array.isArray(asRecord(record.log).entries)) {
+    return {
+      format: "har",
+      profiles: parseHar(record, dropped),
+      dropped: uniqueDropped(dropped),
+      config: null,
+      errors: [],
+    };
+  }
+  if (typeof record.title === "string") {
+    return {
+      format: "modheader",
+      profiles: parseModHeader([record], dropped),
+      dropped,
+      config: null,
+      errors: [],
+    };
+  }
+
+  const result = loadConfig(record);
+  if (!result.ok) {
+    return {
+      format: "config",
+      profiles: readProfiles(migrateConfig(record)),
+      dropped,
+      config: null,
+      errors: result.errors,
+    };
+  }
+  return {
+    format: "config",
+    // Sealed secrets can only be decrypted by the install that sealed them.
+    profiles: redactSecrets(result.config.profiles, true),
+    dropped,
+    config: result.data,
+    errors: [],
+  };
+}
@@ -0,0 +1,444 @@
+import {
+  SECRET_MASK,
+  TAB_SESSIONS_KEY,
+  readTabSessions,
+  type RuleIndexEntry,
+} from "./config.ts";
+import {
+  getDynamicRules,
+  getSessionRules,
+  sessionGet,
+  storageGet,
+  testMatchOutcome,
+} from "./chrome.ts";
+import { escapeRegex } from "./rules.ts";
+
+type Rule = chrome.declarativeNetRequest.Rule;
+
+export interface TestRequest {
+  url: string;
+  initiator: string | null;
+  type: chrome.declarativeNetRequest.ResourceType;
+  method: chrome.declarativeNetRequest.RequestMethod;
+  tabId: number;
+}
+
+export interface HeaderOutcome {
+  target: "request" | "response";
+  header: string;
+  operation: string;
+  value: string | null;
+}
+
+export interface TestMatch {
+  ruleId: number;
+  tabOnly: boolean;
+  source: string;
+  action: string;
+  priority: number;
+  applied: boolean;
+}
+
+export type TestVerdict =
+  "unmatched" | "allowed" | "blocked" | "redirected" | "modified";
+
+/** A rule whose regex only Chrome's RE2 engine understands. */
+export interface UnevaluatedRule {
+  ruleId: number;
+  tabOnly: boolean;
+  source: string;
+}
+
+export interface TestResult {
+  engine: "chrome" | "extension";
+  verdict: TestVerdict;
+  redirectTo: string | null;
+  matches: TestMatch[];
+  unevaluated: UnevaluatedRule[];
+  headers: HeaderOutcome[];
+}
+
+// DNR breaks priority ties by action type in this order.
+const ACTION_RANK: Record<string, number> = {
+  allow: 0,
+  allowAllRequests: 1,
+  block: 2,
+  upgradeScheme: 3,
+  redirect: 4,
+  modifyHeaders: 5,
+};
+
+// A separator is anything but a letter, digit or one of `_-.%`, or the end
+// of the URL.
+function urlFilterToRegex(filter: string) {
+  let pattern = filter;
+  let prefix = "";
+  let suffix = "";
+  if (pattern.startsWith("||")) {
+    prefix = "^[a-z][a-z0-9+.-]*:\\/\\/(?:[^/?#]*\\.)?";
+    pattern = pattern.slice(2);
+  } else if (pattern.startsWith("|")) {
+    prefix = "^";
+    pattern = pattern.slice(1);
+  }
+  if (pattern.endsWith("|")) {
+    suffix = "$";
+    pattern = pattern.slice(0, -1);
+  }
+
+  const body = Array.from(pattern, (char) =>
+    char === "*"
+      ? ".*"
+      : char === "^"
+        ? "(?:[^a-z0-9_.%-]|$)"
+        : escapeRegex(char),
+  ).join("");
+  return new RegExp(`${prefix}${body}${suffix}`, "i");
+}
+
+const matchesDomain = (host: string, domains: string[]) =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+function readHost(url: string | null) {
+  if (url === null) {
+    return null;
+  }
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Evaluates a compiled condition against a request the way Chrome does
+ * for the fields this extension generates. Regexes run on the JavaScript
+ * engine, which throws on the few RE2 constructs it does not share.
+ */
+export function matchesCondition(
+  condition: chrome.declarativeNetRequest.RuleCondition,
+  request: TestRequest,
+) {
+  const host = readHost(request.url);
+  if (host === null) {
+    return false;
+  }
+
+  if (
+    condition.regexFilter !== undefined &&
+    !new RegExp(
+      condition.regexFilter,
+      condition.isUrlFilterCaseSensitive ? "" : "i",
+    ).test(request.url)
+  ) {
+    return false;
+  }
+  if (
+    condition.urlFilter !== undefined &&
+    !urlFilterToRegex(condition.urlFilter).test(request.url)
+  ) {
+    return false;
+  }
+
+  if (
+    condition.requestDomains &&
+    !matchesDomain(host, condition.requestDomains)
+  ) {
+    return false;
+  }
+  if (
+    condition.excludedRequestDomains &&
+    matchesDomain(host, condition.excludedRequestDomains)
+  ) {
+    return false;
+  }
+
+  // Requests without an initiator never match an initiator allowlist.
+  const initiatorHost = readHost(request.initiator);
+  if (
+    condition.initiatorDomains &&
+    (initiatorHost === null ||
+      !matchesDomain(initiatorHost, condition.initiatorDomains))
+  ) {
+    return false;
+  }
+  if (
+    condition.excludedInitiatorDomains &&
+    initiatorHost !== null &&
+    matchesDomain(initiatorHost, condition.excludedInitiatorDomains)
+  ) {
+    return false;
+  }
+
+  // Without any resource type list DNR skips main_frame requests.
+  if (condition.resourceTypes) {
+    if (!condition.resourceTypes.includes(request.type)) {
+      return false;
+    }
+  } else if (condition.excludedResourceTypes) {
+    if (condition.excludedResourceTypes.includes(request.type)) {
+      return false;
+    }
+  } else if (request.type === "main_frame") {
+    return false;
+  }
+
+  if (
+    condition.requestMethods &&
+    !condition.requestMethods.includes(request.method)
+  ) {
+    return false;
+  }
+  if (condition.excludedRequestMethods?.includes(request.method)) {
+    return false;
+  }
+
+  if (condition.tabIds && !condition.tabIds.includes(request.tabId)) {
+    return false;
+  }
+  return !condition.excludedTabIds?.includes(request.tabId);
+}
+
+const compareRules = (a: Rule, b: Rule) =>
+  (b.priority ?? 1) - (a.priority ?? 1) ||
+  ACTION_RANK[a.action.type] - ACTION_RANK[b.action.type];
+
+/**
+ * Picks the rules Chrome acts on from the matching ones: the top blocking,
+ * redirecting or allowing rule decides the request, and header rules only
+ * apply above the top allow rule's priority.
+ */
+export function resolveMatches(matched: Rule[]) {
+  const sorted = [...matched].sort(compareRules);
+  const decisive = sorted.find((rule) => rule.action.type !== "modifyHeaders");
+
+  if (decisive?.action.type === "block") {
+    return { verdict: "blocked" as const, applied: [decisive] };
+  }
+  if (
+    decisive?.action.type === "redirect" ||
+    decisive?.action.type === "upgradeScheme"
+  ) {
+    return { verdict: "redirected" as const, applied: [decisive] };
+  }
+
+  const cutoff = decisive ? (decisive.priority ?? 1) : -Infinity;
+  const headerRules = sorted.filter(
+    (rule) =>
+      rule.action.type === "modifyHeaders" && (rule.priority ?? 1) > cutoff,
+  );
+  if (headerRules.length > 0) {
+    return { verdict: "modified" as const, applied: headerRules };
+  }
+  return {
+    verdict: decisive ? ("allowed" as const) : ("unmatched" as const),
+    applied: decisive ? [decisive] : [],
+  };
+}
+
+/**
+ * Folds header operations in priority order like DNR does: once a header
+ * was set or removed, lower-priority changes to it are ignored, and only
+ * appends stack on an earlier append.
+ */
+export function combineHeaders(rules: Rule[]) {
+  const headers: HeaderOutcome[] = [];
+  const fold = (
+    target: HeaderOutcome["target"],
+    infos: chrome.declarativeNetRequest.ModifyHeaderInfo[] = [],
+  ) => {
+    for (const info of infos) {
+      const existing = headers.find(
+        (header) =>
+          header.target === target &&
+          header.header.toLowerCase() === info.header.toLowerCase(),
+      );
+      if (!existing) {
+        headers.push({
+          target,
+          header: info.header,
+          operation: info.operation,
+          value: info.value ?? null,
+        });
+      } else if (
+        info.operation === "append" &&
+        existing.operation === "append"
+      ) {
+        existing.value = `${existing.value ?? ""}, ${info.value ?? ""}`;
+      }
+    }
+  };
+
+  for (const rule of rules) {
+    fold("request", rule.action.requestHeaders);
+    fold("response", rule.action.responseHeaders);
+  }
+  return headers;
+}
+
+// Regex substitutions are replayed on the URL like DNR does, replacing the
+// first match; transforms are only named.
+function describeRedirect(rule: Rule, url: string) {
+  const redirect = rule.action.redirect;
+  if (rule.action.type === "upgradeScheme") {
+    return url.replace(/^http:/, "https:");
+  }
+  if (redirect?.url) {
+    return redirect.url;
+  }
+  if (
+    redirect?.regexSubstitution !== undefined &&
+    rule.condition.regexFilter !== undefined
+  ) {
+    try {
+      return url.replace(
+        new RegExp(rule.condition.regexFilter, "i"),
+        redirect.regexSubstitution.replace(/\\(\d)/g, "$$$1"),
+      );
+    } catch {
+      return "a rewritten URL";
+    }
+  }
+  return "a transformed URL";
+}
+
+// Compiled rules carry resolved secret values, so the headers the rule's
+// index entry flags as secret are masked before they are shown.
+function maskSecretValues(rule: Rule, entry: RuleIndexEntry | undefined) {
+  const secretHeaders = new Set(entry?.secretHeaders);
+  const mask = (
+    target: HeaderOutcome["target"],
+    infos?: chrome.declarativeNetRequest.ModifyHeaderInfo[],
+  ) =>
+    infos?.map((info) =>
+      info.value !== undefined &&
+      secretHeaders.has(`${target}:${info.header.toLowerCase()}`)
+        ? { ...info, value: SECRET_MASK }
+        : info,
+    );
+
+  return {
+    ...rule,
+    action: {
+      ...rule.action,
+      requestHeaders: mask("request", rule.action.requestHeaders),
+      responseHeaders: mask("response", rule.action.responseHeaders),
+    },
+  };
+}
+
+async function findMatchingRules(
+  request: TestRequest,
+  dynamicRules: Rule[],
+  sessionRules: Rule[],
+) {
+  const candidates = [
+    ...dynamicRules.map((rule) => ({ rule, tabOnly: false })),
+    ...sessionRules.map((rule) => ({ rule, tabOnly: true })),
+  ];
+
+  if ("testMatchOutcome" in chrome.declarativeNetRequest) {
+    try {
+      const matched = await testMatchOutcome({
+        url: request.url,
+        initiator: request.initiator ?? undefined,
+        type: request.type,
+        method: request.method,
+        tabId: request.tabId,
+      });
+      const keys = new Set(
+        matched.map((rule) => `${rule.rulesetId}:${rule.ruleId}`),
+      );
+      return {
+        engine: "chrome" as const,
+        unevaluated: [],
+        matched: candidates.filter(({ rule, tabOnly }) =>
+          keys.has(
+            `${
+              tabOnly
+                ? chrome.declarativeNetRequest.SESSION_RULESET_ID
+                : chrome.declarativeNetRequest.DYNAMIC_RULESET_ID
+            }:${rule.id}`,
+          ),
+        ),
+      };
+    } catch {
+      // Packed installs are refused; the local matcher takes over.
+    }
+  }
+
+  // One rule the local matcher cannot read must not hide the others.
+  const matched: typeof candidates = [];
+  const unevaluated: typeof candidates = [];
+  for (const candidate of candidates) {
+    try {
+      if (matchesCondition(candidate.rule.condition, request)) {
+        matched.push(candidate);
+      }
+    } catch {
+      unevaluated.push(candidate);
+    }
+  }
+  return { engine: "extension" as const, matched, unevaluated };
+}
+
+/**
+ * Runs a hypothetical request against the installed rules, including the
+ * This Tab rules of `request.tabId`, and reports what Chrome would do.
+ */
+export async function testRequest(request: TestRequest): Promise<TestResult> {
+  const [dynamicRules, sessionRules, stored, session] = await Promise.all([
+    getDynamicRules(),
+    getSessionRules(),
+    storageGet(["ruleIndex"]),
+    sessionGet([TAB_SESSIONS_KEY]),
+  ]);
+  const tabSession = readTabSessions(session[TAB_SESSIONS_KEY])[request.tabId];
+  const describe = (rule: Rule, tabOnly: boolean) =>
+    (tabOnly ? tabSession?.ruleIndex : stored.ruleIndex)?.[rule.id];
+  const describeSource = (rule: Rule, entry: RuleIndexEntry | undefined) =>
+    entry ? `${entry.profileName} / ${entry.ruleName}` : `DNR rule ${rule.id}`;
+
+  const { engine, matched, unevaluated } = await findMatchingRules(
+    request,
+    dynamicRules,
+    sessionRules,
+  );
+  const { verdict, applied } = resolveMatches(matched.map(({ rule }) => rule));
+  const entries = new Map(
+    matched.map(({ rule, tabOnly }) => [rule, describe(rule, tabOnly)]),
+  );
+
+  return {
+    engine,
+    verdict,
+    redirectTo:
+      verdict === "redirected"
+        ? describeRedirect(applied[0], request.url)
+        : null,
+    matches: [...matched]
+      .sort((a, b) => compareRules(a.rule, b.rule))
+      .map(({ rule, tabOnly }) => {
+        const entry = entries.get(rule);
+        return {
+          ruleId: rule.id,
+          tabOnly,
+          source: describeSource(rule, entry),
+          action: rule.action.type,
+          priority: rule.priority ?? 1,
+          applied: applied.includes(rule),
+        };
+      }),
+    unevaluated: unevaluated.map(({ rule, tabOnly }) => ({
+      ruleId: rule.id,
+      tabOnly,
+      source: describeSource(rule, describe(rule, tabOnly)),
+    })),
+    headers:
+      verdict === "modified"
+        ? combineHeaders(
+            applied.map((rule) => maskSecretValues(rule, entries.get(rule))),
+          )
+        : [],
+  };
+}
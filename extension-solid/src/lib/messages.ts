@@ -0,0 +1,37 @@
+import type { AppliedConfig, SubscriptionConfig } from "./config.ts";
+
+/** Requests the popup sends to the background worker. */
+export type WorkerMessage =
+  | { type: "apply"; config: AppliedConfig; restoredFrom?: number }
+  | { type: "applyToTab"; tabId: number; config: AppliedConfig }
+  | { type: "clearTab"; tabId: number }
+  | { type: "refreshActivity" }
+  | { type: "clearActivity" }
+  | { type: "setSubscriptions"; subscriptions: SubscriptionConfig[] }
+  | { type: "syncSubscriptions" }
+  | { type: "setPassphrase"; passphrase: string }
+  | { type: "unlockSecrets"; passphrase: string }
+  | { type: "lockSecrets" }
+  | { type: "removePassphrase" }
+  | { type: "clearHistory" };
+
+export type WorkerResponse = { ok: true } | { ok: false; error: string };
+
+export const sendMessage = (message: WorkerMessage) =>
+  new Promise<void>((resolve, reject) => {
+    chrome.runtime.sendMessage(
+      message,
+      (response: WorkerResponse | undefined) => {
+        const error = chrome.runtime.lastError;
+        if (error) {
+          reject(new Error(`Background worker unavailable: ${error.message}`));
+          return;
+        }
+        if (response && !response.ok) {
+          reject(new Error(response.error));
+          return;
+        }
+        resolve();
+      },
+    );
+  });
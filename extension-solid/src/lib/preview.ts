@@ -0,0 +1,238 @@
+import {
+  RULE_TEMPLATES_SESSION_KEY,
+  SECRET_MASK,
+  SUBSCRIPTION_STATE_KEY,
+  SUBSCRIPTIONS_KEY,
+  readRemoteProfiles,
+  readSubscriptionState,
+  readSubscriptions,
+  type AppliedConfig,
+  type HeaderConfig,
+  type Profile,
+  type RuleIndexEntry,
+} from "./config.ts";
+import {
+  getDynamicRules,
+  getSessionRules,
+  isRegexSupported,
+  sessionGet,
+  storageGet,
+} from "./chrome.ts";
+import { compileConfig, diffRules, renderRule } from "./rules.ts";
+
+export interface RuleQuota {
+  label: string;
+  used: number;
+  limit: number;
+}
+
+export type RuleChange = "added" | "changed" | "unchanged";
+
+export interface PreviewRule {
+  rule: chrome.declarativeNetRequest.Rule;
+  change: RuleChange;
+  source: string;
+}
+
+export interface ApplyPreview {
+  rules: PreviewRule[];
+  // Rules that are dropped without a replacement under the same ID.
+  removed: { id: number; source: string }[];
+  quotas: RuleQuota[];
+  errors: string[];
+}
+
+// The limits are read at runtime: Chrome before 121 only defines the shared
+// dynamic-and-session limit, later versions the dynamic and unsafe ones.
+type RuleLimits = Partial<
+  Record<
+    | "MAX_NUMBER_OF_DYNAMIC_RULES"
+    | "MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES"
+    | "MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES"
+    | "MAX_NUMBER_OF_REGEX_RULES",
+    number
+  >
+>;
+
+const isUnsafeRule = (rule: chrome.declarativeNetRequest.Rule) =>
+  rule.action.type ===
+    chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS ||
+  rule.action.type === chrome.declarativeNetRequest.RuleActionType.REDIRECT;
+
+const isRegexRule = (rule: chrome.declarativeNetRequest.Rule) =>
+  rule.condition.regexFilter !== undefined;
+
+const describeSource = (entry: RuleIndexEntry | undefined) =>
+  entry ? `${entry.profileName} / ${entry.ruleName}` : "Unknown rule";
+
+/**
+ * Counts the rules that would be installed against Chrome's limits.
+ * Session rules (This Tab) share some of the limits with dynamic ones.
+ */
+export function checkRuleQuotas(
+  dynamicRules: chrome.declarativeNetRequest.Rule[],
+  sessionRules: chrome.declarativeNetRequest.Rule[],
+) {
+  const limits = chrome.declarativeNetRequest as RuleLimits;
+  const quotas: RuleQuota[] = [];
+
+  if (
+    limits.MAX_NUMBER_OF_DYNAMIC_RULES !== undefined &&
+    limits.MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES !== undefined
+  ) {
+    quotas.push(
+      {
+        label: "Dynamic rules",
+        used: dynamicRules.length,
+        limit: limits.MAX_NUMBER_OF_DYNAMIC_RULES,
+      },
+      {
+        label: "Header and redirect rules",
+        used: dynamicRules.filter(isUnsafeRule).length,
+        limit: limits.MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES,
+      },
+    );
+  } else if (limits.MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES !== undefined) {
+    quotas.push({
+      label: "Dynamic and tab rules",
+      used: dynamicRules.length + sessionRules.length,
+      limit: limits.MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES,
+    });
+  }
+
+  if (limits.MAX_NUMBER_OF_REGEX_RULES !== undefined) {
+    quotas.push({
+      label: "Regex rules",
+      used:
+        dynamicRules.filter(isRegexRule).length +
+        sessionRules.filter(isRegexRule).length,
+      limit: limits.MAX_NUMBER_OF_REGEX_RULES,
+    });
+  }
+
+  const errors = quotas
+    .filter((quota) => quota.used > quota.limit)
+    .map(
+      (quota) =>
+        `${quota.label}: ${quota.used} exceed Chrome's limit of ${quota.limit}.`,
+    );
+  return { quotas, errors };
+}
+
+// Secret values are shown as the mask; locked ones stay sealed so they are
+// left out exactly as they would be when applied.
+function maskSecrets(profiles: Profile[]) {
+  const mask = (headers: HeaderConfig[]) =>
+    headers.map((header) =>
+      header.secret && !header.sealed
+        ? { ...header, value: SECRET_MASK }
+        : header,
+    );
+  return profiles.map((profile) => ({
+    ...profile,
+    rules: profile.rules.map((rule) => ({
+      ...rule,
+      headers: mask(rule.headers),
+      responseHeaders: mask(rule.responseHeaders),
+    })),
+  }));
+}
+
+async function checkCompiledRegexes(
+  rules: chrome.declarativeNetRequest.Rule[],
+  ruleIndex: Record<number, RuleIndexEntry>,
+) {
+  const errors: string[] = [];
+  const checked = new Set<string>();
+  for (const rule of rules) {
+    const regex = rule.condition.regexFilter;
+    if (regex === undefined || checked.has(regex)) {
+      continue;
+    }
+    checked.add(regex);
+
+    const result = await isRegexSupported(regex);
+    if (!result.isSupported) {
+      const reason =
+        result.reason === "memoryLimitExceeded"
+          ? "too complex"
+          : "syntax error";
+      errors.push(
+        `${describeSource(ruleIndex[rule.id])}: Unsupported regex (${reason}): ${regex}`,
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Compiles `config` the way the background worker will and compares it
+ * with the installed dynamic rules, so the exact update can be reviewed
+ * and checked against Chrome's limits before it is applied.
+ */
+export async function buildApplyPreview(
+  config: AppliedConfig,
+): Promise<ApplyPreview> {
+  const stored = await storageGet([
+    SUBSCRIPTIONS_KEY,
+    SUBSCRIPTION_STATE_KEY,
+    "ruleIndex",
+  ]);
+  const remoteProfiles = readRemoteProfiles(
+    readSubscriptions(stored.subscriptions),
+    readSubscriptionState(stored.subscriptionState),
+  );
+
+  const { compiledRules, ruleIndex } = compileConfig(config, remoteProfiles);
+  const desiredRules = compiledRules.map(renderRule);
+  const maskedRules = new Map(
+    compileConfig(
+      { ...config, profiles: maskSecrets(config.profiles) },
+      remoteProfiles,
+    ).compiledRules.map((rule) => [rule.id, renderRule(rule)]),
+  );
+
+  const [existingRules, sessionRules, session] = await Promise.all([
+    getDynamicRules(),
+    getSessionRules(),
+    sessionGet([RULE_TEMPLATES_SESSION_KEY]),
+  ]);
+  // Generator tokens render to new values every time, so a rule that has
+  // them is compared by the template it was installed from instead.
+  const existingMap = new Map(existingRules.map((rule) => [rule.id, rule]));
+  const installedTemplates = new Map(
+    (
+      (session[RULE_TEMPLATES_SESSION_KEY] ??
+        []) as chrome.declarativeNetRequest.Rule[]
+    ).map((rule) => [rule.id, JSON.stringify(rule)]),
+  );
+  const comparedRules = compiledRules.map((rule, index) =>
+    installedTemplates.get(rule.id) === JSON.stringify(rule)
+      ? (existingMap.get(rule.id) ?? desiredRules[index])
+      : desiredRules[index],
+  );
+  const { removeRuleIds, addRules } = diffRules(existingRules, comparedRules);
+  const existingIds = new Set(existingRules.map((rule) => rule.id));
+  const addedIds = new Set(addRules.map((rule) => rule.id));
+  const previousIndex = stored.ruleIndex ?? {};
+
+  const { quotas, errors } = checkRuleQuotas(desiredRules, sessionRules);
+  errors.push(...(await checkCompiledRegexes(desiredRules, ruleIndex)));
+
+  return {
+    rules: desiredRules.map((rule) => ({
+      rule: maskedRules.get(rule.id) ?? rule,
+      change: !addedIds.has(rule.id)
+        ? "unchanged"
+        : existingIds.has(rule.id)
+          ? "changed"
+          : "added",
+      source: describeSource(ruleIndex[rule.id]),
+    })),
+    removed: removeRuleIds
+      .filter((id) => !addedIds.has(id))
+      .map((id) => ({ id, source: describeSource(previousIndex[id]) })),
+    quotas,
+    errors,
+  };
+}
@@ -0,0 +1,596 @@
+import {
+  GENERATOR_TOKENS,
+  RULE_ID_BLOCK,
+  SECRET_MASK,
+  TEMPLATE_RE,
+  type AppliedConfig,
+  type DomainMatchMode,
+  type HeaderConfig,
+  type InitiatorFilters,
+  type Profile,
+  type RedirectConfig,
+  type RequestFilters,
+  type RuleConfig,
+  type RuleIndexEntry,
+  type VariableConfig,
+} from "./config.ts";
+import { isScheduleActive } from "./schedule.ts";
+
+export function escapeRegex(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function stripWildcardPrefix(domain: string) {
+  return domain.replace(/^\*\./, "");
+}
+
+/** Splits a scope entry like `example.com/api/*` into host and path. */
+export function splitScopeEntry(entry: string) {
+  const slashIndex = entry.indexOf("/");
+  return slashIndex === -1
+    ? { host: entry, path: "" }
+    : { host: entry.slice(0, slashIndex), path: entry.slice(slashIndex) };
+}
+
+/** Converts a scope path glob, where `*` is the only wildcard, to a regex. */
+function globToRegex(glob: string) {
+  return glob.split("*").map(escapeRegex).join(".*");
+}
+
+/** Substitutes `{{var:NAME}}` tokens, leaving generators for render time. */
+export function resolveVariables(
+  value: string,
+  variables: Map<string, string>,
+) {
+  return value.replace(TEMPLATE_RE, (match, token: string) =>
+    token.startsWith("var:")
+      ? (variables.get(token.slice(4).trim()) ?? match)
+      : match,
+  );
+}
+
+/** Reports the first template token that cannot be resolved, if any. */
+export function findTemplateError(
+  value: string,
+  variables: Map<string, string>,
+) {
+  for (const [, token] of value.matchAll(TEMPLATE_RE)) {
+    if (GENERATOR_TOKENS.includes(token)) {
+      continue;
+    }
+    if (!token.startsWith("var:")) {
+      return `unknown template {{${token}}}`;
+    }
+    const name = token.slice(4).trim();
+    if (!variables.has(name)) {
+      return `undefined variable ${name}`;
+    }
+  }
+
+  return null;
+}
+
+export function buildVariableMap(
+  globalVariables: VariableConfig[],
+  profileVariables: VariableConfig[],
+) {
+  return new Map(
+    [...globalVariables, ...profileVariables].map((variable) => [
+      variable.name,
+      variable.value,
+    ]),
+  );
+}
+
+export function renderGeneratedValue(value: string) {
+  return value.replace(TEMPLATE_RE, (match, token: string) => {
+    switch (token) {
+      case "uuid":
+        return crypto.randomUUID();
+      case "now":
+        return String(Date.now());
+      case "now:iso":
+        return new Date().toISOString();
+      default:
+        return match;
+    }
+  });
+}
+
+function hasGeneratorTokens(value: string) {
+  return Array.from(value.matchAll(TEMPLATE_RE)).some(([, token]) =>
+    GENERATOR_TOKENS.includes(token),
+  );
+}
+
+export function hasGeneratedValues(rule: chrome.declarativeNetRequest.Rule) {
+  return [
+    ...(rule.action.requestHeaders ?? []),
+    ...(rule.action.responseHeaders ?? []),
+  ].some(
+    (header) => header.value !== undefined && hasGeneratorTokens(header.value),
+  );
+}
+
+/** Fills generator tokens with fresh values; the template is left intact. */
+export function renderRule(
+  rule: chrome.declarativeNetRequest.Rule,
+): chrome.declarativeNetRequest.Rule {
+  const renderHeaders = (
+    headers?: chrome.declarativeNetRequest.ModifyHeaderInfo[],
+  ) =>
+    headers?.map((header) =>
+      header.value === undefined
+        ? header
+        : { ...header, value: renderGeneratedValue(header.value) },
+    );
+
+  const action = { ...rule.action };
+  if (action.requestHeaders) {
+    action.requestHeaders = renderHeaders(action.requestHeaders);
+  }
+  if (action.responseHeaders) {
+    action.responseHeaders = renderHeaders(action.responseHeaders);
+  }
+  return { ...rule, action };
+}
+
+// Without any resource type list DNR skips main_frame requests, so "all"
+// is spelled out explicitly.
+function buildRequestFilters(
+  filters: RequestFilters & InitiatorFilters,
+): chrome.declarativeNetRequest.RuleCondition {
+  const condition: chrome.declarativeNetRequest.RuleCondition = {};
+  const selectedTypes =
+    filters.resourceTypes as chrome.declarativeNetRequest.ResourceType[];
+
+  if (filters.resourceTypeMode === "exclude" && selectedTypes.length > 0) {
+    condition.excludedResourceTypes = selectedTypes;
+  } else {
+    condition.resourceTypes =
+      selectedTypes.length > 0
+        ? selectedTypes
+        : (Object.values(
+            chrome.declarativeNetRequest.ResourceType,
+          ) as chrome.declarativeNetRequest.ResourceType[]);
+  }
+
+  if (filters.requestMethods.length > 0) {
+    condition.requestMethods =
+      filters.requestMethods as chrome.declarativeNetRequest.RequestMethod[];
+  }
+
+  if (filters.initiatorDomains.length > 0) {
+    condition.initiatorDomains = filters.initiatorDomains;
+  }
+  if (filters.excludedInitiatorDomains.length > 0) {
+    condition.excludedInitiatorDomains = filters.excludedInitiatorDomains;
+  }
+
+  return condition;
+}
+
+export function buildCondition(
+  domain: string,
+  mode: DomainMatchMode,
+  filters: RequestFilters & InitiatorFilters,
+): chrome.declarativeNetRequest.RuleCondition {
+  const requestFilters = buildRequestFilters(filters);
+
+  if (mode === "regex") {
+    return { regexFilter: domain, ...requestFilters };
+  }
+
+  const { host, path } = splitScopeEntry(domain);
+  const normalizedDomain = stripWildcardPrefix(host);
+
+  // Paths are full-match globs; urlFilter needs a trailing `|` anchor
+  // unless the glob already ends in a wildcard.
+  if (mode === "include_subdomains") {
+    return {
+      urlFilter:
+        path === ""
+          ? `||${normalizedDomain}/`
+          : `||${normalizedDomain}${path}${path.endsWith("*") ? "" : "|"}`,
+      ...requestFilters,
+    };
+  }
+
+  const escapedDomain = escapeRegex(normalizedDomain);
+  const pathPattern = path === "" ? "\\/" : `${globToRegex(path)}$`;
+  if (mode === "exact") {
+    return {
+      regexFilter: `^https?:\\/\\/${escapedDomain}(?::\\d+)?${pathPattern}`,
+      ...requestFilters,
+    };
+  }
+
+  return {
+    regexFilter: `^https?:\\/\\/(?:[^./]+\\.)+${escapedDomain}(?::\\d+)?${pathPattern}`,
+    ...requestFilters,
+  };
+}
+
+function toHeaderInfo(
+  header: HeaderConfig,
+): chrome.declarativeNetRequest.ModifyHeaderInfo {
+  if (header.operation === "remove") {
+    return {
+      header: header.key,
+      operation: chrome.declarativeNetRequest.HeaderOperation.REMOVE,
+    };
+  }
+
+  return {
+    header: header.key,
+    operation:
+      header.operation === "append"
+        ? chrome.declarativeNetRequest.HeaderOperation.APPEND
+        : chrome.declarativeNetRequest.HeaderOperation.SET,
+    value: header.value,
+  };
+}
+
+function buildHeaderAction(
+  requestHeaders: HeaderConfig[],
+  responseHeaders: HeaderConfig[],
+): chrome.declarativeNetRequest.RuleAction {
+  // DNR rejects empty header lists, so only include the sides in use.
+  const action: chrome.declarativeNetRequest.RuleAction = {
+    type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+  };
+  if (requestHeaders.length > 0) {
+    action.requestHeaders = requestHeaders.map(toHeaderInfo);
+  }
+  if (responseHeaders.length > 0) {
+    action.responseHeaders = responseHeaders.map(toHeaderInfo);
+  }
+
+  return action;
+}
+
+function buildRedirect(
+  redirect: RedirectConfig,
+): chrome.declarativeNetRequest.Redirect {
+  if (redirect.mode === "url") {
+    return { url: redirect.url };
+  }
+  if (redirect.mode === "regex") {
+    return { regexSubstitution: redirect.regexSubstitution };
+  }
+
+  // Empty parts are omitted so DNR keeps them from the original URL.
+  const { scheme, host, port, path, addQueryParams, removeQueryParams } =
+    redirect.transform;
+  const transform: chrome.declarativeNetRequest.URLTransform = {};
+  if (scheme !== "") {
+    transform.scheme = scheme;
+  }
+  if (host !== "") {
+    transform.host = host;
+  }
+  if (port !== "") {
+    transform.port = port;
+  }
+  if (path !== "") {
+    transform.path = path;
+  }
+  if (addQueryParams.length > 0 || removeQueryParams.length > 0) {
+    transform.queryTransform = {};
+    if (addQueryParams.length > 0) {
+      transform.queryTransform.addOrReplaceParams = addQueryParams;
+    }
+    if (removeQueryParams.length > 0) {
+      transform.queryTransform.removeParams = removeQueryParams;
+    }
+  }
+  return { transform };
+}
+
+function buildAction(
+  rule: RuleConfig,
+  variableMap: Map<string, string>,
+): chrome.declarativeNetRequest.RuleAction | null {
+  if (rule.kind === "block") {
+    return { type: chrome.declarativeNetRequest.RuleActionType.BLOCK };
+  }
+  if (rule.kind === "redirect") {
+    return {
+      type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
+      redirect: buildRedirect(rule.redirect),
+    };
+  }
+
+  // Locked secrets have no plaintext to send until they are unlocked.
+  const resolveHeaders = (headers: HeaderConfig[]) =>
+    headers
+      .filter((header) => !header.sealed)
+      .map((header) => ({
+        ...header,
+        value: resolveVariables(header.value, variableMap),
+      }));
+  const requestHeaders = resolveHeaders(rule.headers);
+  const responseHeaders = resolveHeaders(rule.responseHeaders);
+  if (requestHeaders.length === 0 && responseHeaders.length === 0) {
+    return null;
+  }
+
+  return buildHeaderAction(requestHeaders, responseHeaders);
+}
+
+// Above every action rule, so an exclusion wins over the rule it carves
+// from. DNR has no per-rule allow, so it wins over every other rule of the
+// extension on the same requests too, including tab-only session rules.
+const EXCLUSION_PRIORITY = 2;
+
+/**
+ * Whether an exclusion compiles to an allow rule, which also stops every
+ * other rule on the requests it matches. Host-only exclusions stay within
+ * their own rule.
+ */
+export const isAllowExclusion = (entry: string, mode: DomainMatchMode) =>
+  mode === "regex" || splitScopeEntry(entry).path !== "";
+
+/**
+ * Host-only exclusions become `excludedRequestDomains`. Path and regex
+ * exclusions cannot be negated inside a condition, so they compile to
+ * higher-priority allow rules instead; see isAllowExclusion.
+ */
+function buildExclusions(rule: RuleConfig) {
+  const excludedRequestDomains: string[] = [];
+  const allowConditions: chrome.declarativeNetRequest.RuleCondition[] = [];
+
+  for (const entry of rule.excludedDomains) {
+    if (rule.domainMatchMode === "regex") {
+      allowConditions.push(buildCondition(entry, "regex", rule));
+      continue;
+    }
+
+    const { host, path } = splitScopeEntry(entry);
+    if (path === "") {
+      excludedRequestDomains.push(stripWildcardPrefix(host));
+    } else if (host === "") {
+      // Path-only exclusions apply to every host of the scope.
+      const hosts = new Set(
+        rule.domains.map((domain) => splitScopeEntry(domain).host),
+      );
+      for (const scopeHost of hosts) {
+        allowConditions.push(
+          buildCondition(`${scopeHost}${path}`, rule.domainMatchMode, rule),
+        );
+      }
+    } else {
+      // Like excludedRequestDomains, an excluded host covers its subdomains.
+      allowConditions.push(buildCondition(entry, "include_subdomains", rule));
+    }
+  }
+
+  return { excludedRequestDomains, allowConditions };
+}
+
+/**
+ * Checks that a rule fits its block of RULE_ID_BLOCK DNR rule IDs. Path
+ * exclusions multiply by scope hosts, so the compiled rules are counted,
+ * whether or not the rule currently compiles to any.
+ */
+export function checkRuleIdBlock(rule: RuleConfig) {
+  const count =
+    Math.max(rule.domains.length, 1) +
+    buildExclusions(rule).allowConditions.length;
+  return count >= RULE_ID_BLOCK
+    ? `A rule can compile to at most ${RULE_ID_BLOCK - 1} DNR rules; reduce its domains or exclusions.`
+    : null;
+}
+
+/**
+ * Compiles one rule into DNR rules, using IDs from the rule's block.
+ * Variables are substituted here; generator tokens are left in place.
+ */
+export function buildRuleSet(
+  rule: RuleConfig,
+  variableMap: Map<string, string>,
+): chrome.declarativeNetRequest.Rule[] {
+  const action = rule.enabled ? buildAction(rule, variableMap) : null;
+  if (!action) {
+    return [];
+  }
+
+  const conditions =
+    rule.domains.length === 0
+      ? [{ urlFilter: "*", ...buildRequestFilters(rule) }]
+      : rule.domains.map((domain) =>
+          buildCondition(domain, rule.domainMatchMode, rule),
+        );
+  const { excludedRequestDomains, allowConditions } = buildExclusions(rule);
+  if (excludedRequestDomains.length > 0) {
+    for (const condition of conditions) {
+      condition.excludedRequestDomains = excludedRequestDomains;
+    }
+  }
+
+  const firstId = rule.id * RULE_ID_BLOCK + 1;
+  return [
+    ...conditions.map((condition, index) => ({
+      id: firstId + index,
+      priority: 1,
+      action,
+      condition,
+    })),
+    ...allowConditions.map((condition, index) => ({
+      id: firstId + conditions.length + index,
+      priority: EXCLUSION_PRIORITY,
+      action: { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+      condition,
+    })),
+  ];
+}
+
+/** Compiles every enabled rule of the active profiles, unrendered. */
+export function compileRules(
+  activeProfiles: Profile[],
+  isEnabled: boolean,
+  globalVariables: VariableConfig[],
+) {
+  if (!isEnabled) {
+    return [];
+  }
+
+  return activeProfiles.flatMap((profile) => {
+    const variableMap = buildVariableMap(globalVariables, profile.variables);
+    return profile.rules.flatMap((rule) => buildRuleSet(rule, variableMap));
+  });
+}
+
+/** Summarizes where a redirect rule sends requests. */
+function describeRedirect(redirect: RedirectConfig) {
+  if (redirect.mode === "url") {
+    return `redirect to ${redirect.url}`;
+  }
+  if (redirect.mode === "regex") {
+    return `rewrite to ${redirect.regexSubstitution}`;
+  }
+
+  const { scheme, host, port, path, addQueryParams, removeQueryParams } =
+    redirect.transform;
+  const parts = [
+    scheme && `scheme ${scheme}`,
+    host && `host ${host}`,
+    port && `port ${port}`,
+    path && `path ${path}`,
+    ...addQueryParams.map((param) => `+${param.key}=${param.value}`),
+    ...removeQueryParams.map((key) => `-${key}`),
+  ].filter(Boolean);
+  return `rewrite ${parts.join(", ")}`;
+}
+
+function describeHeaderChange(
+  header: HeaderConfig,
+  target: "request" | "response",
+) {
+  const prefix = target === "response" ? "response " : "";
+  if (header.operation === "remove") {
+    return `${prefix}remove ${header.key}`;
+  }
+  // The activity log shows these, so secret values are never spelled out.
+  const value = header.secret ? SECRET_MASK : header.value;
+  return `${prefix}${header.operation} ${header.key}: ${value}`;
+}
+
+/** Lists what a rule does to matching requests, with secrets masked. */
+export function describeRuleChanges(rule: RuleConfig) {
+  if (rule.kind === "block") {
+    return ["blocked"];
+  }
+  if (rule.kind === "redirect") {
+    return [describeRedirect(rule.redirect)];
+  }
+  return [
+    ...rule.headers.map((header) => describeHeaderChange(header, "request")),
+    ...rule.responseHeaders.map((header) =>
+      describeHeaderChange(header, "response"),
+    ),
+  ];
+}
+
+export function buildRuleIndex(
+  activeProfiles: Profile[],
+  isEnabled: boolean,
+  globalVariables: VariableConfig[],
+) {
+  const index: Record<number, RuleIndexEntry> = {};
+  if (!isEnabled) {
+    return index;
+  }
+
+  for (const profile of activeProfiles) {
+    const variableMap = buildVariableMap(globalVariables, profile.variables);
+    for (const rule of profile.rules) {
+      const entry: RuleIndexEntry = {
+        profileName: profile.name,
+        ruleName: rule.name,
+        headers: describeRuleChanges(rule),
+        secretHeaders: [
+          ...rule.headers
+            .filter((header) => header.secret)
+            .map((header) => `request:${header.key.toLowerCase()}`),
+          ...rule.responseHeaders
+            .filter((header) => header.secret)
+            .map((header) => `response:${header.key.toLowerCase()}`),
+        ],
+      };
+      for (const dnrRule of buildRuleSet(rule, variableMap)) {
+        index[dnrRule.id] =
+          dnrRule.action.type ===
+          chrome.declarativeNetRequest.RuleActionType.ALLOW
+            ? { ...entry, headers: ["excluded from scope"] }
+            : entry;
+      }
+    }
+  }
+
+  return index;
+}
+
+function serializeRule(rule: chrome.declarativeNetRequest.Rule) {
+  return JSON.stringify({
+    priority: rule.priority,
+    action: rule.action,
+    condition: rule.condition,
+  });
+}
+
+/** Computes the minimal update that turns `existingRules` into `desiredRules`. */
+export function diffRules(
+  existingRules: chrome.declarativeNetRequest.Rule[],
+  desiredRules: chrome.declarativeNetRequest.Rule[],
+) {
+  const existingMap = new Map(existingRules.map((rule) => [rule.id, rule]));
+  const desiredMap = new Map(desiredRules.map((rule) => [rule.id, rule]));
+
+  const removeRuleIds = existingRules
+    .filter((rule) => {
+      const desiredRule = desiredMap.get(rule.id);
+      return !desiredRule || serializeRule(desiredRule) !== serializeRule(rule);
+    })
+    .map((rule) => rule.id);
+
+  const addRules = desiredRules.filter((rule) => {
+    const existingRule = existingMap.get(rule.id);
+    return !existingRule || serializeRule(existingRule) !== serializeRule(rule);
+  });
+
+  return { removeRuleIds, addRules };
+}
+
+/**
+ * Compiles everything the background worker applies. Outside its schedule
+ * a config compiles to no rules, like a disabled one; SCHEDULE_ALARM_NAME
+ * reconciles again at the next transition. Subscribed profiles follow the
+ * same switch and schedule as local ones.
+ */
+export function compileConfig(
+  config: AppliedConfig,
+  remoteProfiles: Profile[],
+) {
+  const activeProfiles = [
+    ...config.profiles.filter((profile) =>
+      config.activeProfileIds.includes(profile.id),
+    ),
+    ...remoteProfiles,
+  ];
+  const isActive =
+    config.enabled && isScheduleActive(config.schedule, Date.now());
+  const compiledRules = compileRules(
+    activeProfiles,
+    isActive,
+    config.variables,
+  );
+
+  return {
+    compiledRules,
+    ruleIndex: buildRuleIndex(activeProfiles, isActive, config.variables),
+    // Rules with generated values are kept as templates so they can be
+    // re-rendered on REFRESH_ALARM_NAME.
+    ruleTemplates: compiledRules.filter(hasGeneratedValues),
+  };
+}
@@ -0,0 +1,101 @@
+import type { ScheduleConfig, ScheduleWindow } from "./config.ts";
+
+const CLOCK_TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+// Every weekly window starts or ends within this many days of any moment.
+const LOOKAHEAD_DAYS = 8;
+
+/** Parses `HH:MM` into minutes after midnight, or null if malformed. */
+export function parseClockTime(value: string) {
+  const match = CLOCK_TIME_RE.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function isInWindow(window: ScheduleWindow, date: Date) {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  if (start === null || end === null) {
+    return false;
+  }
+
+  const day = date.getDay();
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  if (start === end) {
+    return window.days.includes(day);
+  }
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight windows belong to the day they start on.
+  return (
+    (window.days.includes(day) && minutes >= start) ||
+    (window.days.includes((day + 6) % 7) && minutes < end)
+  );
+}
+
+export function hasSchedule(schedule: ScheduleConfig) {
+  return (
+    schedule.windows.length > 0 ||
+    schedule.startsAt !== null ||
+    schedule.expiresAt !== null
+  );
+}
+
+/** Whether the schedule lets the rules run at `time`. */
+export function isScheduleActive(schedule: ScheduleConfig, time: number) {
+  if (schedule.startsAt !== null && time < schedule.startsAt) {
+    return false;
+  }
+  if (schedule.expiresAt !== null && time >= schedule.expiresAt) {
+    return false;
+  }
+
+  const date = new Date(time);
+  return (
+    schedule.windows.length === 0 ||
+    schedule.windows.some((window) => isInWindow(window, date))
+  );
+}
+
+/**
+ * Returns when `isScheduleActive` next flips after `time`, or null if it
+ * never does. Only window boundaries and the start/expiry times can flip
+ * it, so those are the only candidates checked.
+ */
+export function nextScheduleChange(schedule: ScheduleConfig, time: number) {
+  const candidates = [schedule.startsAt, schedule.expiresAt].filter(
+    (value): value is number => value !== null,
+  );
+
+  const date = new Date(time);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset += 1) {
+    const boundaries = [
+      0,
+      ...schedule.windows.flatMap((window) => [
+        parseClockTime(window.start),
+        parseClockTime(window.end),
+      ]),
+    ];
+    for (const minutes of boundaries) {
+      if (minutes !== null) {
+        candidates.push(
+          new Date(
+            date.getFullYear(),
+            date.getMonth(),
+            date.getDate() + offset,
+            Math.floor(minutes / 60),
+            minutes % 60,
+          ).getTime(),
+        );
+      }
+    }
+  }
+
+  const current = isScheduleActive(schedule, time);
+  return (
+    candidates
+      .filter((candidate) => candidate > time)
+      .sort((a, b) => a - b)
+      .find((candidate) => isScheduleActive(schedule, candidate) !== current) ??
+    null
+  );
+}
@@ -0,0 +1,454 @@
+import {
+  DEFAULT_PROFILE_NAME,
+  HEADER_NAME_RE,
+  MAX_RULE_ID,
+  REQUEST_METHODS,
+  RESOURCE_TYPES,
+  createRedirectConfig,
+  createScheduleConfig,
+  isDomainMatchMode,
+  isHeaderOperation,
+  readAppliedConfig,
+  type AppliedConfig,
+} from "./config.ts";
+import { parseClockTime } from "./schedule.ts";
+
+/**
+ * Version of the stored and exported config layout:
+ * 1. one header/scope set at the top level;
+ * 2. named profiles, each with one header/scope set;
+ * 3. profiles holding a list of rules, plus variables;
+ * 4. rule kinds, filters, exclusions and a schedule on every config.
+ */
+export const CONFIG_VERSION = 4;
+// Storage key holding the version the stored config was last written in.
+export const CONFIG_VERSION_KEY = "version";
+
+/** A problem with one field, e.g. `profiles[0].rules[1].kind`. */
+export interface SchemaError {
+  path: string;
+  reason: string;
+}
+
+type ConfigData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is ConfigData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asRecordList(value: unknown) {
+  return Array.isArray(value)
+    ? value.map((item) => (isRecord(item) ? item : {}))
+    : [];
+}
+
+/** Fills only the fields that are missing, never overriding stored values. */
+function withDefaults(data: ConfigData, defaults: ConfigData): ConfigData {
+  const result = { ...data };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (result[key] === undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/** Guesses the version of data written before versions were recorded. */
+export function detectVersion(data: ConfigData) {
+  if (typeof data.version === "number") {
+    return data.version;
+  }
+  if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+    return 1;
+  }
+  return asRecordList(data.profiles).every((profile) =>
+    Array.isArray(profile.rules),
+  )
+    ? 3
+    : 2;
+}
+
+// MIGRATIONS[n] upgrades version n + 1 data to version n + 2.
+const MIGRATIONS: ((data: ConfigData) => ConfigData)[] = [
+  ({ headers, domains, domainMatchMode, ...rest }) => {
+    const id = crypto.randomUUID();
+    return {
+      ...rest,
+      profiles: [
+        {
+          id,
+          name: DEFAULT_PROFILE_NAME,
+          headers: headers ?? [],
+          domains: domains ?? [],
+          domainMatchMode: domainMatchMode ?? "include_subdomains",
+        },
+      ],
+      activeProfileIds: [id],
+    };
+  },
+  (data) => ({
+    ...withDefaults(data, { variables: [] }),
+    profiles: asRecordList(data.profiles).map((profile) => {
+      if (Array.isArray(profile.rules)) {
+        return profile;
+      }
+      const { headers, domains, domainMatchMode, ...rest } = profile;
+      return {
+        ...rest,
+        rules: [
+          {
+            name: "Rule 1",
+            headers: headers ?? [],
+            domains: domains ?? [],
+            domainMatchMode: domainMatchMode ?? "include_subdomains",
+          },
+        ],
+      };
+    }),
+  }),
+  (data) => ({
+    ...withDefaults(data, {
+      variables: [],
+      schedule: createScheduleConfig(),
+    }),
+    profiles: asRecordList(data.profiles).map((profile) => ({
+      ...withDefaults(profile, { variables: [] }),
+      rules: asRecordList(profile.rules).map((rule) => ({
+        ...withDefaults(rule, {
+          enabled: true,
+          kind: "headers",
+          responseHeaders: [],
+          domains: [],
+          excludedDomains: [],
+          domainMatchMode: "include_subdomains",
+          resourceTypes: [],
+          resourceTypeMode: "include",
+          requestMethods: [],
+          initiatorDomains: [],
+          excludedInitiatorDomains: [],
+          redirect: createRedirectConfig(),
+        }),
+        headers: asRecordList(rule.headers).map((header) =>
+          withDefaults(header, { operation: "set" }),
+        ),
+        responseHeaders: asRecordList(rule.responseHeaders).map((header) =>
+          withDefaults(header, { operation: "set" }),
+        ),
+      })),
+    })),
+  }),
+];
+
+/**
+ * Runs every migration newer than the data's version. Data from a newer
+ * extension is returned as is and rejected by validateConfigData.
+ */
+export function migrateConfig(data: ConfigData): ConfigData {
+  let version = detectVersion(data);
+  let migrated = data;
+  while (version >= 1 && version < CONFIG_VERSION) {
+    migrated = MIGRATIONS[version - 1](migrated);
+    version += 1;
+  }
+  return version === CONFIG_VERSION
+    ? { ...migrated, version: CONFIG_VERSION }
+    : migrated;
+}
+
+function isWeekday(value: unknown) {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 6
+  );
+}
+
+/** Checks field types and allowed values of current-version config data. */
+export function validateConfigData(data: ConfigData) {
+  const errors: SchemaError[] = [];
+  const fail = (path: string, reason: string) => errors.push({ path, reason });
+  // Names missing fields separately so hand-edited files are easy to fix.
+  const reject = (value: unknown, path: string, expected: string) =>
+    fail(path, value === undefined ? "Missing field." : expected);
+
+  const expectString = (value: unknown, path: string) => {
+    if (typeof value !== "string") {
+      reject(value, path, "Expected a string.");
+    }
+  };
+  const expectBoolean = (value: unknown, path: string, optional = false) => {
+    if (!(optional && value === undefined) && typeof value !== "boolean") {
+      reject(value, path, "Expected true or false.");
+    }
+  };
+  const expectOneOf = (value: unknown, allowed: string[], path: string) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      reject(value, path, `Expected one of ${allowed.join(", ")}.`);
+    }
+  };
+  const expectTimestamp = (value: unknown, path: string) => {
+    if (
+      value !== undefined &&
+      value !== null &&
+      !(typeof value === "number" && Number.isFinite(value))
+    ) {
+      fail(path, "Expected a timestamp or null.");
+    }
+  };
+  const expectList = (value: unknown, path: string) => {
+    if (!Array.isArray(value)) {
+      reject(value, path, "Expected a list.");
+      return [];
+    }
+    return value as unknown[];
+  };
+  const expectObjects = (value: unknown, path: string) =>
+    expectList(value, path).flatMap((item, index) => {
+      if (isRecord(item)) {
+        return [{ item, path: `${path}[${index}]` }];
+      }
+      fail(`${path}[${index}]`, "Expected an object.");
+      return [];
+    });
+  const expectStrings = (value: unknown, path: string) =>
+    expectList(value, path).forEach((item, index) =>
+      expectString(item, `${path}[${index}]`),
+    );
+  const expectSubset = (value: unknown, allowed: string[], path: string) =>
+    expectList(value, path).forEach((item, index) =>
+      expectOneOf(item, allowed, `${path}[${index}]`),
+    );
+  const expectObject = (value: unknown, path: string) => {
+    if (isRecord(value)) {
+      return value;
+    }
+    reject(value, path, "Expected an object.");
+    return null;
+  };
+
+  const validateHeaders = (value: unknown, path: string) => {
+    for (const { item, path: headerPath } of expectObjects(value, path)) {
+      expectString(item.key, `${headerPath}.key`);
+      if (
+        typeof item.key === "string" &&
+        item.key !== "" &&
+        !HEADER_NAME_RE.test(item.key.trim())
+      ) {
+        fail(`${headerPath}.key`, `Invalid header name: ${item.key}`);
+      }
+      expectString(item.value, `${headerPath}.value`);
+      if (!isHeaderOperation(item.operation)) {
+        reject(
+          item.operation,
+          `${headerPath}.operation`,
+          "Expected one of set, append, remove.",
+        );
+      }
+      expectBoolean(item.secret, `${headerPath}.secret`, true);
+      if (item.sealed !== undefined) {
+        const sealed = expectObject(item.sealed, `${headerPath}.sealed`);
+        if (sealed) {
+          expectString(sealed.iv, `${headerPath}.sealed.iv`);
+          expectString(sealed.data, `${headerPath}.sealed.data`);
+        }
+      }
+    }
+  };
+
+  const validateVariables = (value: unknown, path: string) => {
+    for (const { item, path: variablePath } of expectObjects(value, path)) {
+      expectString(item.name, `${variablePath}.name`);
+      expectString(item.value, `${variablePath}.value`);
+    }
+  };
+
+  const validateRedirect = (value: unknown, path: string) => {
+    const redirect = expectObject(value, path);
+    if (!redirect) {
+      return;
+    }
+    expectOneOf(redirect.mode, ["url", "regex", "transform"], `${path}.mode`);
+    expectString(redirect.url, `${path}.url`);
+    expectString(redirect.regexSubstitution, `${path}.regexSubstitution`);
+    const transform = expectObject(redirect.transform, `${path}.transform`);
+    if (!transform) {
+      return;
+    }
+    for (const key of ["scheme", "host", "port", "path"]) {
+      expectString(transform[key], `${path}.transform.${key}`);
+    }
+    for (const { item, path: paramPath } of expectObjects(
+      transform.addQueryParams,
+      `${path}.transform.addQueryParams`,
+    )) {
+      expectString(item.key, `${paramPath}.key`);
+      expectString(item.value, `${paramPath}.value`);
+    }
+    expectStrings(
+      transform.removeQueryParams,
+      `${path}.transform.removeQueryParams`,
+    );
+  };
+
+  const validateRule = (rule: ConfigData, path: string) => {
+    if (
+      rule.id !== undefined &&
+      !(
+        typeof rule.id === "number" &&
+        Number.isInteger(rule.id) &&
+        rule.id > 0 &&
+        rule.id <= MAX_RULE_ID
+      )
+    ) {
+      fail(`${path}.id`, `Expected an integer from 1 to ${MAX_RULE_ID}.`);
+    }
+    expectString(rule.name, `${path}.name`);
+    expectBoolean(rule.enabled, `${path}.enabled`);
+    expectOneOf(rule.kind, ["headers", "redirect", "block"], `${path}.kind`);
+    validateHeaders(rule.headers, `${path}.headers`);
+    validateHeaders(rule.responseHeaders, `${path}.responseHeaders`);
+    expectStrings(rule.domains, `${path}.domains`);
+    expectStrings(rule.excludedDomains, `${path}.excludedDomains`);
+    if (!isDomainMatchMode(rule.domainMatchMode)) {
+      reject(
+        rule.domainMatchMode,
+        `${path}.domainMatchMode`,
+        "Expected one of exact, include_subdomains, subdomains_only, regex.",
+      );
+    }
+    expectSubset(rule.resourceTypes, RESOURCE_TYPES, `${path}.resourceTypes`);
+    expectOneOf(
+      rule.resourceTypeMode,
+      ["include", "exclude"],
+      `${path}.resourceTypeMode`,
+    );
+    expectSubset(
+      rule.requestMethods,
+      REQUEST_METHODS,
+      `${path}.requestMethods`,
+    );
+    expectStrings(rule.initiatorDomains, `${path}.initiatorDomains`);
+    expectStrings(
+      rule.excludedInitiatorDomains,
+      `${path}.excludedInitiatorDomains`,
+    );
+    validateRedirect(rule.redirect, `${path}.redirect`);
+  };
+
+  const validateSchedule = (value: unknown, path: string) => {
+    const schedule = expectObject(value, path);
+    if (!schedule) {
+      return;
+    }
+    for (const { item, path: windowPath } of expectObjects(
+      schedule.windows,
+      `${path}.windows`,
+    )) {
+      expectList(item.days, `${windowPath}.days`).forEach((day, index) => {
+        if (!isWeekday(day)) {
+          fail(
+            `${windowPath}.days[${index}]`,
+            "Expected a weekday from 0 to 6.",
+          );
+        }
+      });
+      for (const key of ["start", "end"]) {
+        if (
+          typeof item[key] !== "string" ||
+          parseClockTime(item[key]) === null
+        ) {
+          reject(
+            item[key],
+            `${windowPath}.${key}`,
+            "Expected a time as HH:MM.",
+          );
+        }
+      }
+    }
+    expectTimestamp(schedule.startsAt, `${path}.startsAt`);
+    expectTimestamp(schedule.expiresAt, `${path}.expiresAt`);
+  };
+
+  if (typeof data.version !== "number" || data.version > CONFIG_VERSION) {
+    fail(
+      "version",
+      `Version ${String(data.version)} is not supported; expected ${CONFIG_VERSION} or older.`,
+    );
+    return errors;
+  }
+
+  expectBoolean(data.enabled, "enabled", true);
+  expectTimestamp(data.temporaryUntil, "temporaryUntil");
+  if (
+    data.temporaryMinutes !== undefined &&
+    !(
+      typeof data.temporaryMinutes === "number" &&
+      Number.isInteger(data.temporaryMinutes) &&
+      data.temporaryMinutes >= 0 &&
+      data.temporaryMinutes <= 1440
+    )
+  ) {
+    fail("temporaryMinutes", "Expected an integer from 0 to 1440.");
+  }
+  validateVariables(data.variables, "variables");
+  validateSchedule(data.schedule, "schedule");
+
+  const profiles = expectObjects(data.profiles, "profiles");
+  if (Array.isArray(data.profiles) && data.profiles.length === 0) {
+    fail("profiles", "Expected at least one profile.");
+  }
+  const profileIds = new Set<string>();
+  for (const { item: profile, path } of profiles) {
+    if (profile.id !== undefined) {
+      expectString(profile.id, `${path}.id`);
+      if (typeof profile.id === "string") {
+        if (profileIds.has(profile.id)) {
+          fail(`${path}.id`, `Duplicate profile id: ${profile.id}`);
+        }
+        profileIds.add(profile.id);
+      }
+    }
+    expectString(profile.name, `${path}.name`);
+    validateVariables(profile.variables, `${path}.variables`);
+    const rules = expectObjects(profile.rules, `${path}.rules`);
+    for (const { item: rule, path: rulePath } of rules) {
+      validateRule(rule, rulePath);
+    }
+  }
+
+  if (data.activeProfileIds !== undefined) {
+    expectList(data.activeProfileIds, "activeProfileIds").forEach(
+      (id, index) => {
+        if (typeof id !== "string" || !profileIds.has(id)) {
+          fail(
+            `activeProfileIds[${index}]`,
+            `Unknown profile id: ${String(id)}`,
+          );
+        }
+      },
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Migrates stored or imported data to the current version and validates
+ * it, returning either the typed config or every field-level problem.
+ */
+export function loadConfig(
+  data: ConfigData,
+):
+  | { ok: true; data: ConfigData; config: AppliedConfig }
+  | { ok: false; errors: SchemaError[] } {
+  const migrated = migrateConfig(data);
+  const errors = validateConfigData(migrated);
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, data: migrated, config: readAppliedConfig(migrated) };
+}
+
+export function formatSchemaError(error: SchemaError) {
+  return `${error.path}: ${error.reason}`;
+}
@@ -0,0 +1,143 @@
+import type { DomainMatchMode } from "./config.ts";
+import { splitScopeEntry } from "./rules.ts";
+
+export const HOST_RE =
+  /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+export const IPV4_RE =
+  /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\.(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+export const EXCLUSION_PREFIX = "!";
+// `|` and `^` are urlFilter operators, so they cannot appear literally.
+export const SCOPE_PATH_RE = /^\/[^\s|^]*$/;
+
+// Hosts are case-insensitive, paths and queries are not.
+export function normalizeScopeEntry(entry: string) {
+  const { host, path } = splitScopeEntry(entry.trim());
+  return `${host.toLowerCase()}${path}`;
+}
+
+// Regexes may legitimately contain commas and upper-case letters, so they
+// are only split on newlines and kept verbatim. Exclusions keep their `!`.
+export function parseDomains(value: string, mode: DomainMatchMode) {
+  const normalize = (item: string) => {
+    const trimmed = item.trim();
+    const isExcluded = trimmed.startsWith(EXCLUSION_PREFIX);
+    const entry = isExcluded ? trimmed.slice(1).trim() : trimmed;
+    if (entry === "") {
+      return "";
+    }
+    const normalized = mode === "regex" ? entry : normalizeScopeEntry(entry);
+    return isExcluded ? `${EXCLUSION_PREFIX}${normalized}` : normalized;
+  };
+  const parts = (
+    mode === "regex" ? value.split("\n") : value.split(/[\n,]/)
+  ).map(normalize);
+
+  return Array.from(new Set(parts.filter((item) => item.length > 0)));
+}
+
+export function isValidDomain(domain: string) {
+  if (domain === "localhost") {
+    return true;
+  }
+  if (IPV4_RE.test(domain)) {
+    return true;
+  }
+  return HOST_RE.test(domain);
+}
+
+// Regex entries are checked asynchronously with isRegexSupported because
+// only Chrome knows which RE2 features and sizes it accepts.
+export function validateScopeEntry(entry: string, mode: DomainMatchMode) {
+  if (mode === "regex") {
+    return null;
+  }
+
+  const { host, path } = splitScopeEntry(entry);
+  if (!isValidDomain(host)) {
+    return `Invalid domain pattern: ${entry}`;
+  }
+
+  if (path !== "" && !SCOPE_PATH_RE.test(path)) {
+    return `Invalid path in scope pattern: ${entry}`;
+  }
+
+  if (
+    mode === "subdomains_only" &&
+    (host === "localhost" || IPV4_RE.test(host))
+  ) {
+    return `Subdomains-only mode does not support ${host}.`;
+  }
+
+  return null;
+}
+
+// Common country-code second levels, so example.co.uk is not cut to co.uk.
+const SECOND_LEVEL_SUFFIX_RE = /^(?:ac|co|com|edu|gov|net|org)\.[a-z]{2}$/;
+
+export type SiteScope = "host" | "parent" | "subdomains";
+
+export interface SiteChoice {
+  scope: SiteScope;
+  entry: string;
+  mode: DomainMatchMode;
+  label: string;
+}
+
+export const SITE_SCOPE_LABELS: Record<SiteScope, string> = {
+  host: "This host only",
+  parent: "Parent domain and its subdomains",
+  subdomains: "All subdomains of the parent domain",
+};
+
+/**
+ * Offers the ways a page's site can be added to a scope. The parent drops
+ * the host's first label; without a public suffix list, hosts directly
+ * under a suffix are treated as their own parent.
+ */
+export function siteScopeChoices(url: string): SiteChoice[] {
+  let host: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return [];
+    }
+    host = parsed.hostname.toLowerCase();
+  } catch {
+    return [];
+  }
+  if (!isValidDomain(host)) {
+    return [];
+  }
+
+  const hostChoice: SiteChoice = {
+    scope: "host",
+    entry: host,
+    mode: "exact",
+    label: host,
+  };
+  if (host === "localhost" || IPV4_RE.test(host)) {
+    return [hostChoice];
+  }
+
+  const labels = host.split(".");
+  const candidate = labels.slice(1).join(".");
+  const parent =
+    labels.length > 2 && !SECOND_LEVEL_SUFFIX_RE.test(candidate)
+      ? candidate
+      : host;
+  return [
+    hostChoice,
+    {
+      scope: "parent",
+      entry: parent,
+      mode: "include_subdomains",
+      label: `${parent} + subdomains`,
+    },
+    {
+      scope: "subdomains",
+      entry: parent,
+      mode: "subdomains_only",
+      label: `*.${parent}`,
+    },
+  ];
+}
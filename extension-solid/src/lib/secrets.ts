@@ -0,0 +1,222 @@
+import {
+  SECRET_KEY_SESSION_KEY,
+  type HeaderConfig,
+  type Profile,
+  type SealedValue,
+  type SecretEncryption,
+} from "./config.ts";
+import { sessionGet } from "./chrome.ts";
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const CHECK_VALUE = "http-header-modifier";
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: string, iterations: number) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  // Extractable so the unlocked key can be handed to the worker through
+  // session storage.
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function sealValue(key: CryptoKey, value: string): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(value),
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function unsealValue(key: CryptoKey, sealed: SealedValue) {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data),
+  );
+  return new TextDecoder().decode(data);
+}
+
+export function readSecretEncryption(value: unknown): SecretEncryption | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const data = value as Partial<SecretEncryption>;
+  return typeof data.salt === "string" &&
+    typeof data.iterations === "number" &&
+    typeof data.check?.iv === "string" &&
+    typeof data.check.data === "string"
+    ? { salt: data.salt, iterations: data.iterations, check: data.check }
+    : null;
+}
+
+export async function createSecretEncryption(passphrase: string) {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const encryption: SecretEncryption = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await sealValue(key, CHECK_VALUE),
+  };
+  return { encryption, key };
+}
+
+/** Derives the key for `passphrase`, throwing if it is the wrong one. */
+export async function unlockSecretEncryption(
+  encryption: SecretEncryption,
+  passphrase: string,
+) {
+  const key = await deriveKey(
+    passphrase,
+    encryption.salt,
+    encryption.iterations,
+  );
+  try {
+    if ((await unsealValue(key, encryption.check)) === CHECK_VALUE) {
+      return key;
+    }
+  } catch {
+    // AES-GCM rejects ciphertext sealed with a different key.
+  }
+  throw new Error("Wrong passphrase.");
+}
+
+export const exportSecretKey = async (key: CryptoKey) =>
+  toBase64(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+
+/** Reads the unlocked key from session storage, or null while locked. */
+export async function readSecretKey() {
+  const result = await sessionGet([SECRET_KEY_SESSION_KEY]);
+  const value = result[SECRET_KEY_SESSION_KEY];
+  return typeof value === "string"
+    ? crypto.subtle.importKey("raw", fromBase64(value), "AES-GCM", true, [
+        "encrypt",
+        "decrypt",
+      ])
+    : null;
+}
+
+async function mapSecretHeaders(
+  profiles: Profile[],
+  transform: (header: HeaderConfig) => Promise<HeaderConfig>,
+) {
+  const mapHeaders = (headers: HeaderConfig[]) =>
+    Promise.all(
+      headers.map((header) => (header.secret ? transform(header) : header)),
+    );
+  return Promise.all(
+    profiles.map(async (profile) => ({
+      ...profile,
+      rules: await Promise.all(
+        profile.rules.map(async (rule) => ({
+          ...rule,
+          headers: await mapHeaders(rule.headers),
+          responseHeaders: await mapHeaders(rule.responseHeaders),
+        })),
+      ),
+    })),
+  );
+}
+
+/** Encrypts the plaintext secrets; still-locked ones are kept as they are. */
+export const sealProfiles = (profiles: Profile[], key: CryptoKey) =>
+  mapSecretHeaders(profiles, async (header) =>
+    header.sealed
+      ? header
+      : {
+          key: header.key,
+          value: "",
+          operation: header.operation,
+          secret: true,
+          sealed: await sealValue(key, header.value),
+        },
+  );
+
+async function unsealHeader(header: HeaderConfig, key: CryptoKey) {
+  if (!header.sealed) {
+    return header;
+  }
+  try {
+    return {
+      key: header.key,
+      value: await unsealValue(key, header.sealed),
+      operation: header.operation,
+      secret: true,
+    };
+  } catch {
+    return header;
+  }
+}
+
+/**
+ * Decrypts sealed secrets with the unlocked key. Without a key, or for
+ * values sealed with another one, headers stay sealed and therefore locked.
+ */
+export const unsealHeaders = async (
+  headers: HeaderConfig[],
+  key: CryptoKey | null,
+) =>
+  key
+    ? Promise.all(headers.map((header) => unsealHeader(header, key)))
+    : headers;
+
+export const unsealProfiles = async (
+  profiles: Profile[],
+  key: CryptoKey | null,
+) =>
+  key
+    ? mapSecretHeaders(profiles, (header) => unsealHeader(header, key))
+    : profiles;
+
+export function countSecrets(profiles: Profile[]) {
+  return profiles
+    .flatMap((profile) => profile.rules)
+    .flatMap((rule) => [...rule.headers, ...rule.responseHeaders])
+    .filter((header) => header.secret).length;
+}
+
+/**
+ * Blanks secret values for sharing. With `includeSecrets`, plaintext
+ * values are kept; sealed ones are always blanked, as no other install
+ * can decrypt them.
+ */
+export function redactSecrets(profiles: Profile[], includeSecrets: boolean) {
+  const redact = (headers: HeaderConfig[]) =>
+    headers.map((header) =>
+      header.secret && (!includeSecrets || header.sealed)
+        ? {
+            key: header.key,
+            value: "",
+            operation: header.operation,
+            secret: true,
+          }
+        : header,
+    );
+  return profiles.map((profile) => ({
+    ...profile,
+    rules: profile.rules.map((rule) => ({
+      ...rule,
+      headers: redact(rule.headers),
+      responseHeaders: redact(rule.responseHeaders),
+    })),
+  }));
+}
@@ -0,0 +1,8 @@
+/* @refresh reload */
+import { render } from "solid-js/web";
+import "./index.css";
+import OptionsPage from "./OptionsPage.tsx";
+
+const root = document.getElementById("root");
+
+render(() => <OptionsPage />, root!);
@@ -3,4 +3,18 @@ import solid from 'vite-plugin-solid'
 
 export default defineConfig({
   plugins: [solid()],
+  build: {
+    rolldownOptions: {
+      input: {
+        popup: 'index.html',
+        options: 'options.html',
+        background: 'src/background/index.ts',
+      },
+      output: {
+        // The manifest points at a fixed service worker path.
+        entryFileNames: (chunk) =>
+          chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
 })